@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCache } from '@/lib/cache';
+import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limit';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, {
+      maxRequests: 60,
+      windowMs: 60000, // 1 minute
+    });
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          resetAt: rateLimit.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    // Hit/miss counts are for this server instance; entries and bytes for the whole cache
+    const stats = await getCache().stats();
+
+    return NextResponse.json({
+      ...stats,
+      remaining: rateLimit.remaining,
+    });
+  } catch (error) {
+    console.error('Cache API error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStoredMechanics, loadMechanicStore } from '@/lib/rag';
+import { buildCatalog } from '@/lib/catalog';
+import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limit';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, {
+      maxRequests: 60,
+      windowMs: 60000, // 1 minute
+    });
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          resetAt: rateLimit.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    // Filter options come from whatever mechanics are loaded, so they never list data that doesn't exist
+    await loadMechanicStore();
+    const catalog = buildCatalog(getStoredMechanics());
+
+    return NextResponse.json({
+      ...catalog,
+      remaining: rateLimit.remaining,
+    });
+  } catch (error) {
+    console.error('Catalog API error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,15 @@ import { NextRequest } from 'next/server';
 import { z } from 'zod';
 import { retrieveRelevantMechanics, streamResponse, buildContext } from '@/lib/rag';
 import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limit';
+import { getSession } from '@/lib/session-store';
+import { rewriteFollowUpQuery } from '@/lib/query-rewriter';
+import { buildCitationSources } from '@/lib/citations';
+import { encodeChatEvent, type ChatStreamEvent } from '@/lib/chat-events';
+import { getChatModelOptions, getChatModelProvider, type ChatModelUsage } from '@/lib/llm';
+import { summarizeHistory } from '@/lib/history-summary';
 
 const ChatRequestSchema = z.object({
+  // Messages after the summary, or the whole conversation if there isn't one
   messages: z.array(
     z.object({
       role: z.enum(['user', 'assistant']),
@@ -11,6 +18,14 @@ const ChatRequestSchema = z.object({
     })
   ),
   query: z.string().min(1).max(1000),
+  sessionId: z.string().optional(),
+  summary: z
+    .object({
+      text: z.string().max(20000),
+      messageCount: z.number().int().nonnegative(),
+      updatedAt: z.string(),
+    })
+    .optional(),
   filters: z
     .object({
       dungeonRaidName: z.string().optional(),
@@ -46,57 +61,144 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validated = ChatRequestSchema.parse(body);
 
+    // Look up the live Day 1 session, if the client is tracking one
+    const session = validated.sessionId ? getSession(validated.sessionId) : undefined;
+    if (validated.sessionId && !session) {
+      return new Response(
+        JSON.stringify({
+          error: 'Session not found',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     // Ensure mechanic store is loaded (populates from JSON files if empty)
-    const { extractDungeonName, loadMechanicStore } = await import('@/lib/rag');
+    const { loadMechanicStore } = await import('@/lib/rag');
     await loadMechanicStore();
     
-    // Extract dungeon name from query if not already provided in filters
-    const extractedDungeon = extractDungeonName(validated.query);
-    
-    // Use extracted dungeon name if filters don't already have one
     const filters = validated.filters || {};
-    if (!filters.dungeonRaidName && extractedDungeon) {
-      filters.dungeonRaidName = extractedDungeon;
-    }
-
-    // Retrieve relevant mechanics from historical data
-    const searchResults = await retrieveRelevantMechanics(validated.query, {
-      filter: filters,
-      topK: 5,
-    });
-
-    // Build context from RAG results
-    const context = buildContext(searchResults);
+    // The client sends the current question as the last message - it isn't history
+    const lastMessage = validated.messages[validated.messages.length - 1];
+    const history = lastMessage?.role === 'user' && lastMessage.content === validated.query
+      ? validated.messages.slice(0, -1)
+      : validated.messages;
 
     // Convert messages to format expected by RAG
     const conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> =
-      validated.messages.map((msg) => ({
+      history.map((msg) => ({
         role: msg.role,
         content: msg.content,
       }));
 
+    // Cancelled when the client disconnects, which also cancels the upstream model stream
+    const abortController = new AbortController();
+    const abort = () => abortController.abort();
+    request.signal.addEventListener('abort', abort);
+
     // Create streaming response
+    const encoder = new TextEncoder();
     const stream = new ReadableStream({
       async start(controller) {
+        const send = (event: ChatStreamEvent) => {
+          if (!abortController.signal.aborted) {
+            controller.enqueue(encoder.encode(encodeChatEvent(event)));
+          }
+        };
+
         try {
-          const encoder = new TextEncoder();
-          
-          for await (const chunk of streamResponse(validated.query, context, conversationHistory)) {
-            controller.enqueue(encoder.encode(chunk));
+          send({ type: 'retrieval-started', query: validated.query });
+
+          // Turn follow-ups ("what about the second phase?") into a standalone query, carrying
+          // forward the dungeon and encounter from earlier messages. A provided dungeon filter
+          // is canonicalized ("VH" -> "Vesper's Host").
+          const rewritten = rewriteFollowUpQuery(validated.query, history, filters.dungeonRaidName);
+          if (rewritten.dungeonRaidName) {
+            filters.dungeonRaidName = rewritten.dungeonRaidName;
+          }
+          send({
+            type: 'rewritten-query',
+            query: rewritten.query,
+            original: rewritten.original,
+            rewritten: rewritten.rewritten,
+            dungeonRaidName: rewritten.dungeonRaidName,
+            encounterName: rewritten.encounterName,
+          });
+
+          // Retrieve relevant mechanics from historical data
+          const searchResults = await retrieveRelevantMechanics(rewritten.query, {
+            filter: filters,
+            preferredEncounterId: rewritten.encounterId,
+            topK: 5,
+          });
+
+          // Build context from RAG results, with session mechanics taking top priority, and
+          // fit it and the history into the token budget
+          const assembled = buildContext(searchResults, session, conversationHistory, validated.summary?.text);
+          if (assembled.report.dropped.length > 0) {
+            console.log(
+              `[Chat] Context over budget: ${assembled.report.dropped.map((item) => `${item.action} ${item.label}`).join(', ')}`
+            );
+          }
+          send({ type: 'context', report: assembled.report });
+          // Mechanics the answer can cite, keyed by the citation keys in the context
+          send({ type: 'sources', sources: buildCitationSources(searchResults) });
+
+          let usage: ChatModelUsage | undefined;
+          const streamOptions = {
+            signal: abortController.signal,
+            onUsage: (reported: ChatModelUsage) => {
+              usage = reported;
+            },
+          };
+          // The prompt template's dungeon guidance follows the dungeon being asked about
+          const promptOptions = { dungeonRaidName: filters.dungeonRaidName };
+          for await (const text of streamResponse(validated.query, assembled.context, assembled.history, {}, streamOptions, promptOptions)) {
+            send({ type: 'token', text });
+          }
+
+          if (usage) {
+            send({
+              type: 'usage',
+              usage: { provider: getChatModelProvider().name, model: getChatModelOptions().model, ...usage },
+            });
+          }
+
+          // Fold older messages into the conversation's running summary, which the client
+          // stores and sends back instead of those messages. Done after answering so the
+          // extra model call doesn't delay the first token; the token budget trims the
+          // history meanwhile.
+          try {
+            const summarized = await summarizeHistory(validated.summary, conversationHistory, { signal: abortController.signal });
+            if (summarized.updated && summarized.summary) {
+              send({ type: 'summary', summary: summarized.summary });
+            }
+          } catch (error) {
+            if (abortController.signal.aborted) {
+              throw error;
+            }
+            // The answer is already sent - the next turn tries again
+            console.error('History summary failed:', error);
           }
-          
-          controller.close();
+          send({ type: 'done' });
         } catch (error) {
-          console.error('Streaming error:', error);
-          const encoder = new TextEncoder();
-          controller.enqueue(
-            encoder.encode(
-              `\n\n[Error: ${error instanceof Error ? error.message : 'Unknown error'}]`
-            )
-          );
-          controller.close();
+          // A disconnected client has nobody left to tell
+          if (!abortController.signal.aborted) {
+            console.error('Streaming error:', error);
+            send({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+          }
+        } finally {
+          request.signal.removeEventListener('abort', abort);
+          if (!abortController.signal.aborted) {
+            controller.close();
+          }
         }
       },
+      cancel() {
+        abortController.abort();
+      },
     });
 
     return new Response(stream, {
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getContestStatus, loadContestProfile } from '@/lib/contest';
+import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limit';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, {
+      maxRequests: 60,
+      windowMs: 60000, // 1 minute
+    });
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          resetAt: rateLimit.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    const profile = loadContestProfile();
+
+    return NextResponse.json({
+      ...profile,
+      status: getContestStatus(profile),
+      remaining: rateLimit.remaining,
+    });
+  } catch (error) {
+    console.error('Contest API error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
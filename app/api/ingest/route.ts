@@ -65,7 +65,7 @@ export async function POST(request: NextRequest) {
       console.log(`Embedding progress: ${processed}/${total}`);
     });
 
-    // Build vectors for Pinecone
+    // Build vectors for the vector store
     const vectors: UpsertVector[] = embeddings.map((embedding, index) => {
       const item = metadata[index];
       return {
@@ -88,7 +88,7 @@ export async function POST(request: NextRequest) {
       };
     });
 
-    // Upsert to Pinecone
+    // Upsert to vector store
     await upsertMechanics(vectors);
 
     // Register in RAG store
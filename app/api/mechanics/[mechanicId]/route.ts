@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStoredMechanic, loadMechanicStore } from '@/lib/rag';
+import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: Promise<{ mechanicId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, {
+      maxRequests: 60,
+      windowMs: 60000, // 1 minute
+    });
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          resetAt: rateLimit.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    const { mechanicId } = await params;
+    await loadMechanicStore();
+    const stored = getStoredMechanic(mechanicId);
+
+    if (!stored) {
+      return NextResponse.json({ error: 'Mechanic not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      mechanic: stored.mechanic,
+      encounter: {
+        id: stored.encounter.id,
+        name: stored.encounter.name,
+        type: stored.encounter.type,
+        order: stored.encounter.order,
+      },
+      dungeonRaid: {
+        id: stored.dungeonRaid.id,
+        name: stored.dungeonRaid.name,
+        type: stored.dungeonRaid.type,
+      },
+      remaining: rateLimit.remaining,
+    });
+  } catch (error) {
+    console.error('Mechanic API error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { retrieveRelevantMechanics } from '@/lib/rag';
+import { loadMechanicStore, resolveDungeon, resolveEncounterForQuery, retrieveRelevantMechanics } from '@/lib/rag';
 import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limit';
 import { get, getSearchCacheKey, set } from '@/lib/cache';
+import type { DungeonMatch } from '@/lib/dungeon-aliases';
+import type { EncounterMatch } from '@/lib/encounter-resolver';
 import type { SearchRequest, SearchResult } from '@/lib/types';
 
 const SearchRequestSchema = z.object({
@@ -14,11 +16,18 @@ const SearchRequestSchema = z.object({
       mechanicType: z.string().optional(),
       difficulty: z.string().optional(),
       contestModeOnly: z.boolean().optional(),
+      encounterId: z.string().optional(),
     })
     .optional(),
   limit: z.number().int().min(1).max(50).optional(),
 });
 
+interface CachedSearch {
+  results: SearchResult[];
+  resolvedDungeon?: DungeonMatch;
+  resolvedEncounter?: Pick<EncounterMatch, 'order' | 'dungeonRaidName' | 'method'> & { id: string; name: string };
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Rate limiting
@@ -44,26 +53,49 @@ export async function POST(request: NextRequest) {
 
     // Check cache
     const cacheKey = getSearchCacheKey(validated.query, validated.filters);
-    const cached = get<SearchResult[]>(cacheKey);
+    const cached = await get<CachedSearch>(cacheKey);
     if (cached) {
       return NextResponse.json({
-        results: cached,
+        ...cached,
         cached: true,
         remaining: rateLimit.remaining,
       });
     }
 
+    // Resolve the dungeon from the filter (canonicalizing abbreviations) or from the query
+    await loadMechanicStore();
+    const filters = { ...validated.filters };
+    const resolvedDungeon = filters.dungeonRaidName
+      ? resolveDungeon(filters.dungeonRaidName)
+      : resolveDungeon(validated.query);
+    if (resolvedDungeon) {
+      filters.dungeonRaidName = resolvedDungeon.name;
+    }
+
+    // Resolve the encounter ("final boss", "4th encounter", "Zoetic Lockset") the same way
+    const encounterMatch = resolveEncounterForQuery(validated.query, filters.dungeonRaidName);
+    const resolvedEncounter = encounterMatch
+      ? {
+          id: encounterMatch.encounter.id,
+          name: encounterMatch.encounter.name,
+          order: encounterMatch.order,
+          dungeonRaidName: encounterMatch.dungeonRaidName,
+          method: encounterMatch.method,
+        }
+      : undefined;
+
     // Perform search
     const results = await retrieveRelevantMechanics(validated.query, {
-      filter: validated.filters,
+      filter: filters,
       topK: validated.limit || 10,
     });
 
-    // Cache results for 5 minutes
-    set(cacheKey, results, 5 * 60 * 1000);
+    // Cache the whole payload for 5 minutes so cached responses have the same shape
+    const payload: CachedSearch = { results, resolvedDungeon, resolvedEncounter };
+    await set(cacheKey, payload, 5 * 60 * 1000);
 
     return NextResponse.json({
-      results,
+      ...payload,
       cached: false,
       remaining: rateLimit.remaining,
     });
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { deleteMechanic, getSession, updateMechanic } from '@/lib/session-store';
+import { MechanicSchema } from '@/lib/types';
+import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limit';
+
+const UpdateMechanicSchema = z
+  .object({
+    name: z.string().min(1).max(200).optional(),
+    description: z.string().min(1).max(4000).optional(),
+    encounter: z.string().min(1).max(200).optional(),
+    type: MechanicSchema.shape.type.optional(),
+    difficulty: MechanicSchema.shape.difficulty,
+    status: z.enum(['discovered', 'testing', 'confirmed', 'solved']).optional(),
+    solution: z.string().max(4000).optional(),
+    tips: z.array(z.string().max(1000)).max(20).optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'No fields to update',
+  });
+
+interface RouteParams {
+  params: Promise<{ sessionId: string; mechanicId: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, {
+      maxRequests: 30,
+      windowMs: 60000, // 1 minute
+    });
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          resetAt: rateLimit.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    // Parse and validate request
+    const { sessionId, mechanicId } = await params;
+    const body = await request.json();
+    const validated = UpdateMechanicSchema.parse(body);
+
+    if (!getSession(sessionId)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const mechanic = updateMechanic(sessionId, mechanicId, validated);
+
+    if (!mechanic) {
+      return NextResponse.json({ error: 'Mechanic not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      mechanic,
+      remaining: rateLimit.remaining,
+    });
+  } catch (error) {
+    console.error('Session mechanic API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, {
+      maxRequests: 30,
+      windowMs: 60000, // 1 minute
+    });
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          resetAt: rateLimit.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    const { sessionId, mechanicId } = await params;
+
+    if (!getSession(sessionId)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (!deleteMechanic(sessionId, mechanicId)) {
+      return NextResponse.json({ error: 'Mechanic not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      remaining: rateLimit.remaining,
+    });
+  } catch (error) {
+    console.error('Session mechanic API error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
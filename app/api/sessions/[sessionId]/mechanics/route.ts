@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { addMechanic, getSession, searchSessionMechanics } from '@/lib/session-store';
+import { MechanicSchema } from '@/lib/types';
+import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limit';
+
+const CaptureMechanicSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().min(1).max(4000),
+  encounter: z.string().min(1).max(200),
+  type: MechanicSchema.shape.type.optional(),
+  difficulty: MechanicSchema.shape.difficulty,
+  solution: z.string().max(4000).optional(),
+  tips: z.array(z.string().max(1000)).max(20).optional(),
+});
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+/**
+ * List mechanics captured in a session, optionally filtered with ?q=
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, {
+      maxRequests: 60,
+      windowMs: 60000, // 1 minute
+    });
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          resetAt: rateLimit.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    const { sessionId } = await params;
+    const session = getSession(sessionId);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const query = request.nextUrl.searchParams.get('q')?.trim();
+    const mechanics = query ? searchSessionMechanics(sessionId, query) : session.mechanics;
+
+    return NextResponse.json({
+      mechanics,
+      remaining: rateLimit.remaining,
+    });
+  } catch (error) {
+    console.error('Session mechanics API error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Capture a newly discovered mechanic in a session
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, {
+      maxRequests: 30,
+      windowMs: 60000, // 1 minute
+    });
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          resetAt: rateLimit.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    // Parse and validate request
+    const { sessionId } = await params;
+    const body = await request.json();
+    const validated = CaptureMechanicSchema.parse(body);
+
+    const mechanic = addMechanic(sessionId, {
+      ...validated,
+      status: 'discovered',
+    });
+
+    if (!mechanic) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      {
+        mechanic,
+        remaining: rateLimit.remaining,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Session mechanics API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
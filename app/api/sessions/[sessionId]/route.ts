@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { deleteSession, getSession, updateSession } from '@/lib/session-store';
+import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limit';
+
+const UpdateSessionSchema = z
+  .object({
+    dungeonName: z.string().min(1).max(200).optional(),
+    currentEncounter: z.string().min(1).max(200).optional(),
+  })
+  .refine((data) => data.dungeonName !== undefined || data.currentEncounter !== undefined, {
+    message: 'Provide dungeonName or currentEncounter',
+  });
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, {
+      maxRequests: 60,
+      windowMs: 60000, // 1 minute
+    });
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          resetAt: rateLimit.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    const { sessionId } = await params;
+    const session = getSession(sessionId);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      session,
+      remaining: rateLimit.remaining,
+    });
+  } catch (error) {
+    console.error('Session API error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Update session metadata. Setting currentEncounter switches the encounter
+ * the team is working on and records it in the session's encounter list.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, {
+      maxRequests: 30,
+      windowMs: 60000, // 1 minute
+    });
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          resetAt: rateLimit.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    // Parse and validate request
+    const { sessionId } = await params;
+    const body = await request.json();
+    const validated = UpdateSessionSchema.parse(body);
+
+    const session = updateSession(sessionId, validated);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      session,
+      remaining: rateLimit.remaining,
+    });
+  } catch (error) {
+    console.error('Session API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, {
+      maxRequests: 30,
+      windowMs: 60000, // 1 minute
+    });
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          resetAt: rateLimit.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    const { sessionId } = await params;
+
+    if (!deleteSession(sessionId)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      remaining: rateLimit.remaining,
+    });
+  } catch (error) {
+    console.error('Session API error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
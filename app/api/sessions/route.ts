@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createSession, getAllSessions } from '@/lib/session-store';
+import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limit';
+
+const CreateSessionSchema = z.object({
+  dungeonName: z.string().min(1).max(200),
+  currentEncounter: z.string().min(1).max(200).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, {
+      maxRequests: 60,
+      windowMs: 60000, // 1 minute
+    });
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          resetAt: rateLimit.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    // Most recent sessions first
+    const sessions = getAllSessions().sort(
+      (a, b) => b.startTime.getTime() - a.startTime.getTime()
+    );
+
+    return NextResponse.json({
+      sessions,
+      remaining: rateLimit.remaining,
+    });
+  } catch (error) {
+    console.error('Sessions API error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting
+    const clientId = getClientIdentifier(request);
+    const rateLimit = checkRateLimit(clientId, {
+      maxRequests: 30,
+      windowMs: 60000, // 1 minute
+    });
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          resetAt: rateLimit.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    // Parse and validate request
+    const body = await request.json();
+    const validated = CreateSessionSchema.parse(body);
+
+    const session = createSession(validated.dungeonName, validated.currentEncounter);
+
+    return NextResponse.json(
+      {
+        session,
+        remaining: rateLimit.remaining,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Sessions API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
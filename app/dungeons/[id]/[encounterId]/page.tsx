@@ -0,0 +1,81 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { EncounterSection } from '@/components/EncounterTimeline';
+import { loadMechanicStore } from '@/lib/rag';
+import { getDungeonPath, getDungeonRaidById, getEncyclopediaDungeonRaids, getOrderedEncounters } from '@/lib/encyclopedia';
+
+interface EncounterPageProps {
+  params: Promise<{ id: string; encounterId: string }>;
+}
+
+export async function generateStaticParams() {
+  await loadMechanicStore();
+  return getEncyclopediaDungeonRaids().flatMap((dungeonRaid) =>
+    dungeonRaid.encounters.map((encounter) => ({ id: dungeonRaid.id, encounterId: encounter.id }))
+  );
+}
+
+export async function generateMetadata({ params }: EncounterPageProps): Promise<Metadata> {
+  const { id, encounterId } = await params;
+  await loadMechanicStore();
+  const dungeonRaid = getDungeonRaidById(id);
+  const encounter = dungeonRaid?.encounters.find((candidate) => candidate.id === encounterId);
+  return {
+    title: dungeonRaid && encounter ? `${encounter.name} - ${dungeonRaid.name} - Dungeon Helper` : 'Not found - Dungeon Helper',
+  };
+}
+
+export default async function EncounterPage({ params }: EncounterPageProps) {
+  const { id, encounterId } = await params;
+  await loadMechanicStore();
+  const dungeonRaid = getDungeonRaidById(id);
+  if (!dungeonRaid) {
+    notFound();
+  }
+
+  const encounters = getOrderedEncounters(dungeonRaid);
+  const index = encounters.findIndex((encounter) => encounter.id === encounterId);
+  if (index === -1) {
+    notFound();
+  }
+  const encounter = encounters[index];
+  const previous = encounters[index - 1];
+  const next = encounters[index + 1];
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <nav className="text-sm text-muted-foreground">
+        <Link href="/dungeons" className="hover:underline">
+          Dungeons & Raids
+        </Link>
+        {' / '}
+        <Link href={getDungeonPath(dungeonRaid.id)} className="hover:underline">
+          {dungeonRaid.name}
+        </Link>
+        {' / '}
+        <span className="text-foreground">{encounter.name}</span>
+      </nav>
+
+      <div className="mt-6">
+        <EncounterSection dungeonRaidId={dungeonRaid.id} encounter={encounter} />
+      </div>
+
+      {/* Step through the timeline */}
+      <nav className="flex justify-between gap-4 border-t pt-4 text-sm">
+        {previous ? (
+          <Link href={getDungeonPath(dungeonRaid.id, previous.id)} className="hover:underline">
+            ← {previous.name}
+          </Link>
+        ) : (
+          <span />
+        )}
+        {next && (
+          <Link href={getDungeonPath(dungeonRaid.id, next.id)} className="hover:underline">
+            {next.name} →
+          </Link>
+        )}
+      </nav>
+    </main>
+  );
+}
@@ -0,0 +1,79 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Badge } from '@/components/ui/badge';
+import { EncounterSection } from '@/components/EncounterTimeline';
+import { loadMechanicStore } from '@/lib/rag';
+import { getDungeonRaidById, getEncyclopediaDungeonRaids, getOrderedEncounters } from '@/lib/encyclopedia';
+
+interface DungeonPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export async function generateStaticParams() {
+  await loadMechanicStore();
+  return getEncyclopediaDungeonRaids().map((dungeonRaid) => ({ id: dungeonRaid.id }));
+}
+
+export async function generateMetadata({ params }: DungeonPageProps): Promise<Metadata> {
+  const { id } = await params;
+  await loadMechanicStore();
+  const dungeonRaid = getDungeonRaidById(id);
+  return { title: dungeonRaid ? `${dungeonRaid.name} - Dungeon Helper` : 'Not found - Dungeon Helper' };
+}
+
+export default async function DungeonPage({ params }: DungeonPageProps) {
+  const { id } = await params;
+  await loadMechanicStore();
+  const dungeonRaid = getDungeonRaidById(id);
+  if (!dungeonRaid) {
+    notFound();
+  }
+
+  const encounters = getOrderedEncounters(dungeonRaid);
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <Link href="/dungeons" className="text-sm text-muted-foreground hover:underline">
+        ← All dungeons & raids
+      </Link>
+
+      <header className="mt-4 mb-8">
+        <h1 className="text-3xl font-bold flex items-center gap-3">
+          {dungeonRaid.name}
+          <Badge variant="outline">{dungeonRaid.type}</Badge>
+        </h1>
+        <p className="text-muted-foreground mt-2">{dungeonRaid.description}</p>
+        {(dungeonRaid.releaseDate || dungeonRaid.contestModeDate) && (
+          <p className="text-xs text-muted-foreground mt-2">
+            {dungeonRaid.releaseDate && <>Released {dungeonRaid.releaseDate}</>}
+            {dungeonRaid.releaseDate && dungeonRaid.contestModeDate && ' • '}
+            {dungeonRaid.contestModeDate && <>Contest mode {dungeonRaid.contestModeDate}</>}
+          </p>
+        )}
+      </header>
+
+      {/* Table of contents */}
+      <nav className="mb-8">
+        <h2 className="text-sm font-semibold mb-2">Encounters</h2>
+        <ol className="space-y-1 text-sm">
+          {encounters.map((encounter) => (
+            <li key={encounter.id}>
+              <a href={`#${encounter.id}`} className="hover:underline">
+                {encounter.order !== undefined && `${encounter.order}. `}
+                {encounter.name}
+              </a>
+              <span className="text-muted-foreground"> ({encounter.type})</span>
+            </li>
+          ))}
+        </ol>
+      </nav>
+
+      <div>
+        {encounters.map((encounter) => (
+          <EncounterSection key={encounter.id} dungeonRaidId={dungeonRaid.id} encounter={encounter} linkTitle />
+        ))}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,42 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { loadMechanicStore } from '@/lib/rag';
+import { getDungeonPath, getEncyclopediaDungeonRaids } from '@/lib/encyclopedia';
+
+export const metadata: Metadata = {
+  title: 'Dungeons & Raids - Dungeon Helper',
+};
+
+export default async function DungeonsPage() {
+  await loadMechanicStore();
+  const dungeonRaids = getEncyclopediaDungeonRaids();
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <Link href="/" className="text-sm text-muted-foreground hover:underline">
+        ← Back to assistant
+      </Link>
+      <h1 className="text-3xl font-bold mt-4 mb-6">Dungeons & Raids</h1>
+      <div className="grid gap-4 sm:grid-cols-2">
+        {dungeonRaids.map((dungeonRaid) => (
+          <Link key={dungeonRaid.id} href={getDungeonPath(dungeonRaid.id)}>
+            <Card className="h-full hover:border-primary transition-colors">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {dungeonRaid.name}
+                  <Badge variant="outline">{dungeonRaid.type}</Badge>
+                </CardTitle>
+                <CardDescription>
+                  {dungeonRaid.encounters.length} encounter{dungeonRaid.encounters.length === 1 ? '' : 's'} •{' '}
+                  {dungeonRaid.encounters.reduce((count, encounter) => count + encounter.mechanics.length, 0)} mechanics
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          </Link>
+        ))}
+      </div>
+    </main>
+  );
+}
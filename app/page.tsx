@@ -1,14 +1,38 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Moon, Sun } from 'lucide-react';
+import { useState, useEffect, Suspense } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { BookOpen, Library, MessageSquare, Moon, Search, Sun } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ChatInterface } from '@/components/ChatInterface';
+import { ContestBanner } from '@/components/ContestBanner';
+import { SearchInterface } from '@/components/SearchInterface';
+import {
+  parseHomeTab,
+  parseSearchUrlState,
+  writeHomeUrlState,
+  type HomeTab,
+  type SearchUrlState,
+} from '@/lib/search-url';
 
-export default function Home() {
+function HomeContent() {
   const { theme, setTheme } = useTheme();
   const [mounted, setMounted] = useState(false);
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // The tab, query and filters live in the URL so a search can be shared as a link
+  const tab = parseHomeTab(searchParams);
+  const search = parseSearchUrlState(searchParams);
+
+  const updateUrl = (nextTab: HomeTab, nextSearch: SearchUrlState) => {
+    const params = writeHomeUrlState(searchParams, nextTab, nextSearch).toString();
+    router.replace(params ? `${pathname}?${params}` : pathname, { scroll: false });
+  };
 
   // Avoid hydration mismatch by only rendering theme toggle after mount
   useEffect(() => {
@@ -23,11 +47,15 @@ export default function Home() {
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-xl font-bold">Day 1 Mechanics Assistant</h1>
-              <p className="text-xs text-muted-foreground">
-                AI-powered chatbot to help solve mechanics in Day 1 Destiny dungeons
-              </p>
+              <ContestBanner />
             </div>
             <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/dungeons">
+                  <Library className="h-4 w-4" />
+                  Browse dungeons
+                </Link>
+              </Button>
               {mounted && (
                 <Button
                   variant="outline"
@@ -46,11 +74,43 @@ export default function Home() {
         </div>
       </header>
 
-      {/* Main Content - Full Width Chat */}
+      {/* Main Content */}
       <main className="flex-1 container mx-auto px-4 py-4 min-h-0">
-        <div className="h-full min-h-0">
-          <ChatInterface />
-        </div>
+        <Tabs
+          value={tab}
+          onValueChange={(value) => updateUrl(value as HomeTab, search)}
+          className="h-full min-h-0"
+        >
+          <TabsList>
+            <TabsTrigger value="chat">
+              <MessageSquare className="h-4 w-4" />
+              Chat
+            </TabsTrigger>
+            <TabsTrigger value="search">
+              <Search className="h-4 w-4" />
+              Search
+            </TabsTrigger>
+            <TabsTrigger value="quick-reference">
+              <BookOpen className="h-4 w-4" />
+              Quick Reference
+            </TabsTrigger>
+          </TabsList>
+
+          {/* Kept mounted while hidden so switching tabs doesn't cut off a streaming answer */}
+          <TabsContent value="chat" forceMount className="min-h-0 data-[state=inactive]:hidden">
+            <ChatInterface />
+          </TabsContent>
+          <TabsContent value="search" className="min-h-0">
+            <SearchInterface initialSearch={search} onSearchChange={(next) => updateUrl('search', next)} />
+          </TabsContent>
+          <TabsContent value="quick-reference" className="min-h-0">
+            <SearchInterface
+              quickReferenceMode
+              initialSearch={search}
+              onSearchChange={(next) => updateUrl('quick-reference', next)}
+            />
+          </TabsContent>
+        </Tabs>
       </main>
 
       {/* Footer */}
@@ -64,3 +124,12 @@ export default function Home() {
     </div>
   );
 }
+
+export default function Home() {
+  // useSearchParams needs a Suspense boundary so the page can still be prerendered
+  return (
+    <Suspense>
+      <HomeContent />
+    </Suspense>
+  );
+}
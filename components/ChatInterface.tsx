@@ -1,70 +1,157 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Send, Loader2, User, Bot, Trash2 } from 'lucide-react';
+import { Send, Loader2, User, Bot, Trash2, Square, RotateCcw, Pencil, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import ReactMarkdown from 'react-markdown';
-import type { ChatMessage } from '@/lib/types';
+import { MechanicSources } from '@/components/MechanicSources';
+import { getCitedMechanicIds, linkCitations } from '@/lib/citations';
+import { readChatEvents } from '@/lib/chat-events';
+import { ConversationSidebar } from '@/components/ConversationSidebar';
+import {
+  createConversation,
+  deleteConversation,
+  loadConversations,
+  saveConversations,
+  updateConversation,
+  type ConversationState,
+} from '@/lib/conversations';
+import { fetchCatalog } from '@/lib/catalog';
+import type { Catalog, ChatMessage, CitationSource, Conversation } from '@/lib/types';
+
+/**
+ * Sources cited in an answer, or every retrieved source when the answer cites none
+ */
+function getSourcesToShow(message: ChatMessage): CitationSource[] {
+  const sources = message.sources ?? [];
+  const cited = getCitedMechanicIds(message.content);
+  const citedSources = sources.filter((source) => cited.has(source.mechanicId));
+  return citedSources.length > 0 ? citedSources : sources;
+}
+
+// Stable empty list so effects depending on messages don't re-run before conversations load
+const NO_MESSAGES: ChatMessage[] = [];
 
 interface ChatInterfaceProps {}
 
 export function ChatInterface({}: ChatInterfaceProps) {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // All threads, loaded from localStorage after hydration
+  const [conversationState, setConversationState] = useState<ConversationState | null>(null);
+  const [showSidebar, setShowSidebar] = useState(true);
   const [mounted, setMounted] = useState(false);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Source opened from an answer's chips or inline citations
+  const [openSource, setOpenSource] = useState<{ messageIndex: number; mechanicId: string } | null>(null);
+  // Dungeon options for the thread filter
+  const [catalog, setCatalog] = useState<Catalog | null>(null);
+  // User message being edited; submitting it drops every later message
+  const [editing, setEditing] = useState<{ index: number; content: string } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  // Load messages from localStorage after hydration
+  const activeConversation = conversationState?.conversations.find(
+    (conversation) => conversation.id === conversationState.activeId
+  );
+  const messages = activeConversation?.messages ?? NO_MESSAGES;
+
+  // Load conversations from localStorage after hydration
   useEffect(() => {
     setMounted(true);
-    if (typeof window !== 'undefined') {
-      const stored = localStorage.getItem('chat-messages');
-      if (stored) {
-        try {
-          const parsed = JSON.parse(stored);
-          setMessages(
-            parsed.map((msg: any) => ({
-              ...msg,
-              timestamp: new Date(msg.timestamp),
-            }))
-          );
-        } catch (e) {
-          console.error('Failed to load chat messages:', e);
-        }
-      }
-    }
+    setConversationState(loadConversations());
+  }, []);
+
+  useEffect(() => {
+    fetchCatalog()
+      .then(setCatalog)
+      .catch((err) => console.error('Failed to load catalog:', err));
   }, []);
 
-  // Save messages to localStorage whenever they change
+  // Save conversations to localStorage whenever they change
   useEffect(() => {
-    if (mounted && typeof window !== 'undefined' && messages.length > 0) {
-      localStorage.setItem('chat-messages', JSON.stringify(messages));
+    if (conversationState) {
+      saveConversations(conversationState);
     }
-  }, [messages, mounted]);
+  }, [conversationState]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const handleClearChat = () => {
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('chat-messages');
-    }
-    setMessages([]);
+  // Don't leave a model stream running after leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const updateActiveConversation = (update: (conversation: Conversation) => Partial<Conversation>) => {
+    setConversationState((prev) => prev && updateConversation(prev, prev.activeId, update));
+  };
+
+  // Reset per-view state when switching threads
+  const resetView = () => {
     setError(null);
     setInput('');
+    setOpenSource(null);
+    setEditing(null);
   };
 
-  const handleSend = async () => {
-    if (!input.trim() || loading) return;
+  const handleSelectConversation = (conversationId: string) => {
+    setConversationState((prev) => prev && { ...prev, activeId: conversationId });
+    resetView();
+  };
+
+  const handleNewConversation = () => {
+    // New threads keep the current dungeon filter - usually the same run
+    const conversation = createConversation([], activeConversation?.dungeonRaidName);
+    setConversationState((prev) => prev && {
+      ...prev,
+      activeId: conversation.id,
+      conversations: [...prev.conversations, conversation],
+    });
+    resetView();
+  };
+
+  const handleDeleteConversation = (conversationId: string) => {
+    setConversationState((prev) => prev && deleteConversation(prev, conversationId));
+    if (conversationId === conversationState?.activeId) {
+      resetView();
+    }
+  };
+
+  const handleClearChat = () => {
+    updateActiveConversation(() => ({ messages: [], summary: undefined }));
+    resetView();
+  };
+
+  /**
+   * Ask `query` after `previousMessages`, replacing everything after them. Used for new
+   * questions, regenerating the last answer and forking from an edited message.
+   */
+  const sendMessage = async (query: string, previousMessages: ChatMessage[]) => {
+    if (loading || !conversationState || !activeConversation) return;
+
+    // Keep streaming into this thread even if the user switches to another one
+    const conversationId = conversationState.activeId;
+    const dungeonRaidName = activeConversation.dungeonRaidName;
+    const setMessages = (update: (prev: ChatMessage[]) => ChatMessage[]) => {
+      setConversationState((prev) =>
+        prev && updateConversation(prev, conversationId, (conversation) => ({ messages: update(conversation.messages) }))
+      );
+    };
+
+    // The summary stands in for the messages it covers, unless one of them was edited away
+    const summary =
+      activeConversation.summary && activeConversation.summary.messageCount <= previousMessages.length
+        ? activeConversation.summary
+        : undefined;
+    if (activeConversation.summary && !summary) {
+      updateActiveConversation(() => ({ summary: undefined }));
+    }
 
-    const query = input.trim();
     const userMessage: ChatMessage = {
       role: 'user',
       content: query,
@@ -72,22 +159,23 @@ export function ChatInterface({}: ChatInterfaceProps) {
     };
 
     // Build updated messages array with user message
-    const updatedMessages = [...messages, userMessage];
-    
-    setMessages(updatedMessages);
-    setInput('');
-    setLoading(true);
-    setError(null);
+    const updatedMessages = [...previousMessages, userMessage];
 
     // Add placeholder for assistant message
-    setMessages((prev) => [
-      ...prev,
+    setMessages(() => [
+      ...updatedMessages,
       {
         role: 'assistant',
         content: '',
         timestamp: new Date(),
       },
     ]);
+    setLoading(true);
+    setError(null);
+    setOpenSource(null);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
       const response = await fetch('/api/chat', {
@@ -96,9 +184,13 @@ export function ChatInterface({}: ChatInterfaceProps) {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          messages: updatedMessages.map((m) => ({ role: m.role, content: m.content })),
+          messages: updatedMessages.slice(summary?.messageCount ?? 0).map((m) => ({ role: m.role, content: m.content })),
           query: query,
+          ...(summary && { summary }),
+          ...(dungeonRaidName && { filters: { dungeonRaidName } }),
         }),
+        // Aborting closes the connection, which cancels the model stream on the server
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
@@ -106,173 +198,390 @@ export function ChatInterface({}: ChatInterfaceProps) {
         throw new Error(data.error || 'Chat failed');
       }
 
-      // Stream the response
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let assistantContent = '';
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          assistantContent += chunk;
-
-          // Update the last message with streaming content
-          setMessages((prev) => {
-            const newMessages = [...prev];
-            const lastMessage = newMessages[newMessages.length - 1];
-            if (lastMessage.role === 'assistant') {
-              lastMessage.content = assistantContent;
+      if (!response.body) {
+        throw new Error('Chat failed: empty response');
+      }
+
+      // Apply each streamed event to the assistant placeholder
+      const updateAssistant = (update: (message: ChatMessage) => ChatMessage) => {
+        setMessages((prev) => {
+          const lastMessage = prev[prev.length - 1];
+          if (lastMessage?.role !== 'assistant') {
+            return prev;
+          }
+          return [...prev.slice(0, -1), update(lastMessage)];
+        });
+      };
+
+      for await (const event of readChatEvents(response.body)) {
+        switch (event.type) {
+          case 'rewritten-query':
+            // Follow-ups are rewritten into a standalone query for retrieval - show what was searched
+            if (event.rewritten) {
+              updateAssistant((message) => ({ ...message, retrievalQuery: event.query }));
             }
-            return newMessages;
-          });
+            break;
+          case 'sources':
+            updateAssistant((message) => ({ ...message, sources: event.sources }));
+            break;
+          case 'summary':
+            setConversationState((prev) =>
+              prev && updateConversation(prev, conversationId, () => ({ summary: event.summary }))
+            );
+            break;
+          case 'context':
+            updateAssistant((message) => ({ ...message, contextReport: event.report }));
+            break;
+          case 'token':
+            updateAssistant((message) => ({ ...message, content: message.content + event.text }));
+            break;
+          case 'usage':
+            updateAssistant((message) => ({ ...message, usage: event.usage }));
+            break;
+          case 'error':
+            throw new Error(event.message);
         }
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
-      // Remove the placeholder assistant message
-      setMessages((prev) => prev.slice(0, -1));
+      if (abortController.signal.aborted) {
+        // Keep whatever was streamed before the user stopped it
+        setMessages((prev) => {
+          const lastMessage = prev[prev.length - 1];
+          if (lastMessage?.role !== 'assistant') {
+            return prev;
+          }
+          return lastMessage.content
+            ? [...prev.slice(0, -1), { ...lastMessage, stopped: true }]
+            : prev.slice(0, -1);
+        });
+      } else {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+        // Remove the placeholder assistant message
+        setMessages((prev) => prev.slice(0, -1));
+      }
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setLoading(false);
     }
   };
 
+  const handleSend = () => {
+    if (!input.trim() || loading) return;
+    setInput('');
+    sendMessage(input.trim(), messages);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Ask the last question again, replacing its answer
+  const handleRegenerate = () => {
+    const lastUserIndex = messages.findLastIndex((message) => message.role === 'user');
+    if (lastUserIndex === -1) return;
+    sendMessage(messages[lastUserIndex].content, messages.slice(0, lastUserIndex));
+  };
+
+  // Replace an earlier question and continue the conversation from there
+  const handleEditSubmit = () => {
+    if (!editing || !editing.content.trim()) return;
+    const { index, content } = editing;
+    setEditing(null);
+    sendMessage(content.trim(), messages.slice(0, index));
+  };
+
   return (
-    <div className="flex flex-col h-full gap-4 min-h-0">
-      <ScrollArea className="flex-1 min-h-0" ref={scrollAreaRef}>
-        <div className="space-y-4 p-4">
-          {mounted && messages.length === 0 && (
-            <Card>
-              <CardContent className="pt-6">
-                <div className="space-y-2 text-center">
-                  <p className="font-semibold">Day 1 Mechanics Assistant</p>
-                  <p className="text-sm text-muted-foreground">
-                    Describe what you're seeing and I'll help figure out the mechanic! I can:
-                  </p>
-                  <ul className="text-xs text-muted-foreground space-y-1 mt-3 text-left max-w-md mx-auto">
-                    <li>• Analyze mechanics you describe and suggest solutions</li>
-                    <li>• Ask questions to narrow down what you're seeing</li>
-                    <li>• Connect patterns to similar mechanics from other dungeons</li>
-                    <li>• Guide you through solving puzzles step-by-step</li>
-                  </ul>
-                  <p className="text-xs text-primary mt-3 font-medium">
-                    Try: "We see symbols on wheels and need to match them" or "There are beams we need to direct somewhere"
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
-          )}
+    <div className="flex h-full gap-4 min-h-0">
+      {mounted && showSidebar && conversationState && (
+        <aside className="w-64 flex-shrink-0 border-r pr-4 min-h-0">
+          <ConversationSidebar
+            conversations={conversationState.conversations}
+            activeId={conversationState.activeId}
+            onSelect={handleSelectConversation}
+            onNew={handleNewConversation}
+            onRename={(conversationId, title) =>
+              setConversationState((prev) =>
+                prev && updateConversation(prev, conversationId, () => ({ title, renamed: true }))
+              )
+            }
+            onDelete={handleDeleteConversation}
+            onTogglePin={(conversationId) =>
+              setConversationState((prev) =>
+                prev && updateConversation(prev, conversationId, (conversation) => ({ pinned: !conversation.pinned }))
+              )
+            }
+          />
+        </aside>
+      )}
 
-          {mounted && messages.map((message, idx) => (
-            <div
-              key={idx}
-              className={`flex gap-3 ${
-                message.role === 'user' ? 'justify-end' : 'justify-start'
-              }`}
-            >
-              {message.role === 'assistant' && (
-                <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
-                  <Bot className="h-4 w-4 text-primary" />
-                </div>
-              )}
-              <Card
-                className={`max-w-[80%] ${
-                  message.role === 'user'
-                    ? 'bg-primary text-primary-foreground'
-                    : 'bg-muted'
+      <div className="flex flex-col flex-1 h-full gap-4 min-h-0 min-w-0">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setShowSidebar((show) => !show)}
+            title={showSidebar ? 'Hide conversations' : 'Show conversations'}
+          >
+            {showSidebar ? <PanelLeftClose className="h-4 w-4" /> : <PanelLeftOpen className="h-4 w-4" />}
+          </Button>
+          <p className="flex-1 truncate text-sm font-medium">{activeConversation?.title}</p>
+          {/* Every question in this thread is searched within the chosen dungeon */}
+          <Select
+            value={activeConversation?.dungeonRaidName || 'all'}
+            onValueChange={(value) =>
+              updateActiveConversation(() => ({ dungeonRaidName: value === 'all' ? undefined : value }))
+            }
+            disabled={!activeConversation}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="All Dungeons/Raids" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Dungeons/Raids</SelectItem>
+              {catalog?.dungeonRaids.map((dungeon) => (
+                <SelectItem key={dungeon.id} value={dungeon.name}>
+                  {dungeon.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <ScrollArea className="flex-1 min-h-0" ref={scrollAreaRef}>
+          <div className="space-y-4 p-4">
+            {mounted && messages.length === 0 && (
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="space-y-2 text-center">
+                    <p className="font-semibold">Day 1 Mechanics Assistant</p>
+                    <p className="text-sm text-muted-foreground">
+                      Describe what you're seeing and I'll help figure out the mechanic! I can:
+                    </p>
+                    <ul className="text-xs text-muted-foreground space-y-1 mt-3 text-left max-w-md mx-auto">
+                      <li>• Analyze mechanics you describe and suggest solutions</li>
+                      <li>• Ask questions to narrow down what you're seeing</li>
+                      <li>• Connect patterns to similar mechanics from other dungeons</li>
+                      <li>• Guide you through solving puzzles step-by-step</li>
+                    </ul>
+                    <p className="text-xs text-primary mt-3 font-medium">
+                      Try: "We see symbols on wheels and need to match them" or "There are beams we need to direct somewhere"
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Older messages are sent to the model as this summary instead */}
+            {mounted && activeConversation?.summary && (
+              <details className="rounded-md border bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+                <summary className="cursor-pointer">
+                  The first {activeConversation.summary.messageCount} messages are summarized for the assistant
+                </summary>
+                <p className="mt-2 whitespace-pre-line">{activeConversation.summary.text}</p>
+              </details>
+            )}
+
+            {mounted && messages.map((message, idx) => (
+              <div
+                key={idx}
+                className={`flex gap-3 ${
+                  message.role === 'user' ? 'justify-end' : 'justify-start'
                 }`}
               >
-                <CardContent className="pt-4">
-                  <div className="flex items-start gap-2">
-                    {message.role === 'user' && (
-                      <User className="h-4 w-4 mt-0.5 flex-shrink-0" />
-                    )}
-                    <div className="flex-1">
-                      {message.content ? (
-                        message.role === 'assistant' ? (
-                          <div className="text-sm">
-                            <ReactMarkdown
-                              components={{
-                                h1: ({ children }) => <h1 className="text-lg font-bold mt-4 mb-2">{children}</h1>,
-                                h2: ({ children }) => <h2 className="text-base font-bold mt-3 mb-2">{children}</h2>,
-                                h3: ({ children }) => <h3 className="text-sm font-bold mt-2 mb-1">{children}</h3>,
-                                p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
-                                ul: ({ children }) => <ul className="list-disc list-inside mb-2 space-y-1 ml-2">{children}</ul>,
-                                ol: ({ children }) => <ol className="list-decimal list-inside mb-2 space-y-1 ml-2">{children}</ol>,
-                                li: ({ children }) => <li>{children}</li>,
-                                strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
-                                em: ({ children }) => <em className="italic">{children}</em>,
-                                code: ({ children }) => <code className="bg-muted px-1 py-0.5 rounded text-xs font-mono">{children}</code>,
-                                pre: ({ children }) => <pre className="bg-muted p-2 rounded text-xs font-mono overflow-x-auto mb-2">{children}</pre>,
-                                hr: () => <hr className="my-3 border-border" />,
+                {message.role === 'assistant' && (
+                  <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+                    <Bot className="h-4 w-4 text-primary" />
+                  </div>
+                )}
+                <Card
+                  className={`max-w-[80%] ${
+                    message.role === 'user'
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-muted'
+                  }`}
+                >
+                  <CardContent className="pt-4">
+                    <div className="flex items-start gap-2">
+                      {message.role === 'user' && (
+                        <User className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      )}
+                      <div className="flex-1">
+                        {message.retrievalQuery && (
+                          <p className="text-xs text-muted-foreground italic mb-2" title="Your follow-up was searched with context from earlier messages">
+                            Searched: {message.retrievalQuery}
+                          </p>
+                        )}
+                        {message.content ? (
+                          message.role === 'assistant' ? (
+                            <div className="text-sm">
+                              <ReactMarkdown
+                                components={{
+                                  h1: ({ children }) => <h1 className="text-lg font-bold mt-4 mb-2">{children}</h1>,
+                                  h2: ({ children }) => <h2 className="text-base font-bold mt-3 mb-2">{children}</h2>,
+                                  h3: ({ children }) => <h3 className="text-sm font-bold mt-2 mb-1">{children}</h3>,
+                                  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+                                  ul: ({ children }) => <ul className="list-disc list-inside mb-2 space-y-1 ml-2">{children}</ul>,
+                                  ol: ({ children }) => <ol className="list-decimal list-inside mb-2 space-y-1 ml-2">{children}</ol>,
+                                  li: ({ children }) => <li>{children}</li>,
+                                  strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+                                  em: ({ children }) => <em className="italic">{children}</em>,
+                                  code: ({ children }) => <code className="bg-muted px-1 py-0.5 rounded text-xs font-mono">{children}</code>,
+                                  pre: ({ children }) => <pre className="bg-muted p-2 rounded text-xs font-mono overflow-x-auto mb-2">{children}</pre>,
+                                  hr: () => <hr className="my-3 border-border" />,
+                                  a: ({ href, children }) =>
+                                    href?.startsWith('#cite:') ? (
+                                      <button
+                                        type="button"
+                                        className="align-super text-[0.65rem] font-mono text-primary hover:underline px-0.5"
+                                        onClick={() => setOpenSource({ messageIndex: idx, mechanicId: href.slice('#cite:'.length) })}
+                                      >
+                                        [{children}]
+                                      </button>
+                                    ) : (
+                                      <a href={href} className="underline" target="_blank" rel="noreferrer">{children}</a>
+                                    ),
+                                }}
+                              >
+                                {linkCitations(message.content, message.sources ?? [])}
+                              </ReactMarkdown>
+                              {message.sources && (
+                                <MechanicSources
+                                  sources={getSourcesToShow(message)}
+                                  openMechanicId={openSource?.messageIndex === idx ? openSource.mechanicId : null}
+                                  onOpenChange={(mechanicId) =>
+                                    setOpenSource(mechanicId ? { messageIndex: idx, mechanicId } : null)
+                                  }
+                                />
+                              )}
+                              {message.stopped && (
+                                <p className="text-xs text-muted-foreground italic mt-2">Stopped</p>
+                              )}
+                              {!loading && idx === messages.length - 1 && (
+                                <Button variant="ghost" size="sm" className="h-7 px-2 mt-2 text-xs" onClick={handleRegenerate} title="Ask the question again">
+                                  <RotateCcw className="h-3 w-3" />
+                                  Regenerate
+                                </Button>
+                              )}
+                              {message.usage && (
+                                <p className="text-[10px] text-muted-foreground mt-2" title={`${message.usage.provider} • ${message.usage.model}`}>
+                                  {message.usage.inputTokens.toLocaleString()} in / {message.usage.outputTokens.toLocaleString()} out tokens
+                                </p>
+                              )}
+                              {message.contextReport && message.contextReport.dropped.length > 0 && (
+                                <p
+                                  className="text-[10px] text-muted-foreground mt-1"
+                                  title={message.contextReport.dropped.map((item) => `${item.action}: ${item.label}`).join('\n')}
+                                >
+                                  Context trimmed to fit {message.contextReport.budgetTokens.toLocaleString()} tokens:{' '}
+                                  {message.contextReport.dropped.filter((item) => item.action === 'truncated').length} shortened,{' '}
+                                  {message.contextReport.dropped.filter((item) => item.action === 'dropped').length} left out
+                                </p>
+                              )}
+                            </div>
+                          ) : editing?.index === idx ? (
+                            <form
+                              className="flex flex-col gap-2"
+                              onSubmit={(e) => {
+                                e.preventDefault();
+                                handleEditSubmit();
                               }}
                             >
-                              {message.content}
-                            </ReactMarkdown>
-                          </div>
+                              <Input
+                                autoFocus
+                                value={editing.content}
+                                onChange={(e) => setEditing({ index: idx, content: e.target.value })}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Escape') setEditing(null);
+                                }}
+                                className="bg-background text-foreground"
+                              />
+                              <div className="flex justify-end gap-2">
+                                <Button type="button" variant="secondary" size="sm" onClick={() => setEditing(null)}>
+                                  Cancel
+                                </Button>
+                                <Button type="submit" variant="secondary" size="sm" disabled={loading || !editing.content.trim()}>
+                                  Save & Submit
+                                </Button>
+                              </div>
+                            </form>
+                          ) : (
+                            <div className="group flex items-start gap-2">
+                              <p className="text-sm whitespace-pre-wrap flex-1">{message.content}</p>
+                              {!loading && (
+                                <button
+                                  type="button"
+                                  onClick={() => setEditing({ index: idx, content: message.content })}
+                                  className="opacity-60 hover:opacity-100"
+                                  title="Edit and resend from here"
+                                >
+                                  <Pencil className="h-3 w-3" />
+                                </button>
+                              )}
+                            </div>
+                          )
                         ) : (
-                          <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                        )
-                      ) : (
-                        <div className="flex items-center gap-2">
-                          <Loader2 className="h-4 w-4 animate-spin" />
-                          <span className="text-sm text-muted-foreground">Thinking...</span>
-                        </div>
-                      )}
+                          <div className="flex items-center gap-2">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            <span className="text-sm text-muted-foreground">Thinking...</span>
+                          </div>
+                        )}
+                      </div>
                     </div>
+                  </CardContent>
+                </Card>
+                {message.role === 'user' && (
+                  <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+                    <User className="h-4 w-4 text-primary" />
                   </div>
+                )}
+              </div>
+            ))}
+
+            {mounted && error && (
+              <Card className="border-destructive">
+                <CardContent className="pt-4">
+                  <p className="text-sm text-destructive">{error}</p>
                 </CardContent>
               </Card>
-              {message.role === 'user' && (
-                <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
-                  <User className="h-4 w-4 text-primary" />
-                </div>
-              )}
-            </div>
-          ))}
-
-          {mounted && error && (
-            <Card className="border-destructive">
-              <CardContent className="pt-4">
-                <p className="text-sm text-destructive">{error}</p>
-              </CardContent>
-            </Card>
-          )}
+            )}
 
-          <div ref={messagesEndRef} />
-        </div>
-      </ScrollArea>
-
-      <div className="flex gap-2">
-        <Input
-          type="text"
-          placeholder="Describe what you're seeing and I'll help figure it out..."
-          value={input}
-          onChange={(e) => setInput(e.target.value)}
-          onKeyDown={(e) => {
-            if (e.key === 'Enter' && !e.shiftKey && !loading) {
-              handleSend();
-            }
-          }}
-        />
-        <Button
-          variant="outline"
-          size="icon"
-          onClick={handleClearChat}
-          disabled={loading || messages.length === 0}
-          title="Clear chat history"
-        >
-          <Trash2 className="h-4 w-4" />
-        </Button>
-        <Button onClick={handleSend} disabled={loading || !input.trim()}>
+            <div ref={messagesEndRef} />
+          </div>
+        </ScrollArea>
+
+        <div className="flex gap-2">
+          <Input
+            type="text"
+            placeholder="Describe what you're seeing and I'll help figure it out..."
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey && !loading) {
+                handleSend();
+              }
+            }}
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleClearChat}
+            disabled={loading || messages.length === 0}
+            title="Clear this conversation"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
           {loading ? (
-            <Loader2 className="h-4 w-4 animate-spin" />
+            <Button onClick={handleStop} variant="destructive" title="Stop generating">
+              <Square className="h-4 w-4" />
+            </Button>
           ) : (
-            <Send className="h-4 w-4" />
+            <Button onClick={handleSend} disabled={!input.trim()}>
+              <Send className="h-4 w-4" />
+            </Button>
           )}
-        </Button>
+        </div>
       </div>
     </div>
   );
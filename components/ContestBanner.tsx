@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import type { ContestProfile, ContestStatus } from '@/lib/types';
+
+type ContestInfo = ContestProfile & { status: ContestStatus };
+
+const STATUS_LABELS: Record<ContestStatus, string> = {
+  upcoming: 'Upcoming',
+  live: 'Contest live',
+  ended: 'Contest ended',
+};
+
+/**
+ * The current Day 1 target from /api/contest, shown in the page header
+ */
+export function ContestBanner() {
+  const [contest, setContest] = useState<ContestInfo | null>(null);
+
+  useEffect(() => {
+    fetch('/api/contest')
+      .then(async (response) => {
+        if (response.ok) {
+          setContest(await response.json());
+        }
+      })
+      .catch((error) => {
+        // The header works without it
+        console.error('Failed to load contest profile:', error);
+      });
+  }, []);
+
+  if (!contest) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        AI-powered chatbot to help solve mechanics in Day 1 Destiny dungeons
+      </p>
+    );
+  }
+
+  const details = [
+    `${contest.playerCount} players`,
+    contest.expectedThemes.length > 0 ? `${contest.expectedThemes.join(' / ')} themed` : undefined,
+    contest.expectedBossCount ? `${contest.expectedBossCount} bosses expected` : undefined,
+    contest.status === 'upcoming'
+      ? `starts ${new Date(contest.startTime).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`
+      : undefined,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      <Badge variant={contest.status === 'live' ? 'destructive' : 'secondary'}>{STATUS_LABELS[contest.status]}</Badge>
+      <span className="font-medium text-foreground">{contest.dungeonName}</span>
+      <span>{details.join(' · ')}</span>
+    </div>
+  );
+}
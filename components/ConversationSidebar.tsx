@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, MessageSquare, Pencil, Pin, PinOff, Plus, Search, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { searchConversations, sortConversations } from '@/lib/conversations';
+import type { Conversation } from '@/lib/types';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+  onRename: (conversationId: string, title: string) => void;
+  onDelete: (conversationId: string) => void;
+  onTogglePin: (conversationId: string) => void;
+}
+
+/**
+ * List of chat threads with search, pinning, renaming and deletion
+ */
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onTogglePin,
+}: ConversationSidebarProps) {
+  const [search, setSearch] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+
+  const visible = sortConversations(searchConversations(conversations, search));
+
+  const submitRename = () => {
+    if (renaming && renaming.title.trim()) {
+      onRename(renaming.id, renaming.title.trim());
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0 gap-2">
+      <Button variant="outline" size="sm" onClick={onNew} className="justify-start">
+        <Plus className="h-4 w-4" />
+        New conversation
+      </Button>
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-muted-foreground" />
+        <Input
+          type="text"
+          placeholder="Search conversations..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="h-8 pl-7 text-xs"
+        />
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="space-y-1 pr-2">
+          {visible.length === 0 && (
+            <p className="text-xs text-muted-foreground text-center py-4">No conversations found</p>
+          )}
+          {visible.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm ${
+                conversation.id === activeId ? 'bg-muted font-medium' : 'hover:bg-muted/50'
+              }`}
+            >
+              {renaming?.id === conversation.id ? (
+                <form
+                  className="flex flex-1 items-center gap-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    submitRename();
+                  }}
+                >
+                  <Input
+                    autoFocus
+                    value={renaming.title}
+                    onChange={(e) => setRenaming({ id: conversation.id, title: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    className="h-7 text-xs"
+                  />
+                  <Button type="submit" variant="ghost" size="icon" className="h-6 w-6" title="Save">
+                    <Check className="h-3 w-3" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => setRenaming(null)} title="Cancel">
+                    <X className="h-3 w-3" />
+                  </Button>
+                </form>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(conversation.id)}
+                    className="flex flex-1 items-center gap-2 min-w-0 text-left"
+                    title={conversation.dungeonRaidName ? `${conversation.title} • ${conversation.dungeonRaidName}` : conversation.title}
+                  >
+                    {conversation.pinned ? (
+                      <Pin className="h-3 w-3 flex-shrink-0 text-primary" />
+                    ) : (
+                      <MessageSquare className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                    )}
+                    <span className="truncate">{conversation.title}</span>
+                  </button>
+                  <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => onTogglePin(conversation.id)}
+                      title={conversation.pinned ? 'Unpin' : 'Pin'}
+                    >
+                      {conversation.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setRenaming({ id: conversation.id, title: conversation.title })}
+                      title="Rename"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => {
+                        if (window.confirm(`Delete "${conversation.title}"?`)) {
+                          onDelete(conversation.id);
+                        }
+                      }}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import Link from 'next/link';
+import { Sparkles } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { getDungeonPath, getRelatedMechanicLink } from '@/lib/encyclopedia';
+import { getMechanicRole, isFlowMechanic } from '@/lib/mechanic-roles';
+import type { Encounter, Mechanic } from '@/lib/types';
+
+/**
+ * Full write-up of one mechanic, anchored by its id so it can be linked to
+ */
+export function MechanicArticle({ mechanic }: { mechanic: Mechanic }) {
+  const isFlow = isFlowMechanic(mechanic);
+  const role = getMechanicRole(mechanic);
+
+  return (
+    <Card id={mechanic.id} className={`scroll-mt-4 ${isFlow ? 'border-2 border-primary bg-primary/5' : ''}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {isFlow && <Sparkles className="h-5 w-5 text-primary" />}
+          <a href={`#${mechanic.id}`} className="hover:underline">
+            {mechanic.name}
+          </a>
+        </CardTitle>
+        <div className="flex flex-wrap gap-2 mt-2">
+          <Badge>{mechanic.type}</Badge>
+          {isFlow && <Badge variant="default">Encounter Flow</Badge>}
+          {(role === 'tip' || role === 'callout') && <Badge variant="outline">{role}</Badge>}
+          {mechanic.difficulty && <Badge variant="secondary">{mechanic.difficulty}</Badge>}
+          {mechanic.contestModeSpecific && <Badge variant="destructive">Contest Mode</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <h4 className="font-semibold mb-2">Description</h4>
+          <p className="text-sm text-muted-foreground whitespace-pre-line">{mechanic.description}</p>
+        </div>
+        {mechanic.solution && (
+          <div>
+            <h4 className="font-semibold mb-2">Solution</h4>
+            <p className="text-sm text-muted-foreground whitespace-pre-line">{mechanic.solution}</p>
+          </div>
+        )}
+        {mechanic.tips && mechanic.tips.length > 0 && (
+          <div>
+            <h4 className="font-semibold mb-2">Tips</h4>
+            <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
+              {mechanic.tips.map((tip, idx) => (
+                <li key={idx}>{tip}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {mechanic.contestModeNotes && (
+          <div>
+            <h4 className="font-semibold mb-2">Contest Mode Notes</h4>
+            <p className="text-sm text-muted-foreground whitespace-pre-line">{mechanic.contestModeNotes}</p>
+          </div>
+        )}
+        {mechanic.relatedMechanics && mechanic.relatedMechanics.length > 0 && (
+          <div>
+            <h4 className="font-semibold mb-2">Related Mechanics</h4>
+            <div className="flex flex-wrap gap-2">
+              {mechanic.relatedMechanics.map((relatedId) => {
+                const related = getRelatedMechanicLink(relatedId);
+                return related ? (
+                  <Link key={relatedId} href={related.href}>
+                    <Badge variant="outline" className="cursor-pointer">{related.name}</Badge>
+                  </Link>
+                ) : (
+                  <Badge key={relatedId} variant="outline" className="text-muted-foreground">{relatedId}</Badge>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface EncounterSectionProps {
+  dungeonRaidId: string;
+  encounter: Encounter;
+  linkTitle?: boolean; // Link the heading to the encounter's own page
+}
+
+/**
+ * One encounter on the timeline: its heading, description and every mechanic,
+ * encounter flow first
+ */
+export function EncounterSection({ dungeonRaidId, encounter, linkTitle = false }: EncounterSectionProps) {
+  const mechanics = [...encounter.mechanics].sort((a, b) => Number(isFlowMechanic(b)) - Number(isFlowMechanic(a)));
+  const title = (
+    <>
+      {encounter.order !== undefined && <span className="text-muted-foreground">{encounter.order}. </span>}
+      {encounter.name}
+    </>
+  );
+
+  return (
+    <section id={encounter.id} className="relative pl-6 border-l-2 border-border scroll-mt-4">
+      <div className="absolute -left-[7px] top-2 h-3 w-3 rounded-full bg-primary" />
+      <div className="mb-4">
+        <h2 className="text-xl font-bold">
+          {linkTitle ? (
+            <Link href={getDungeonPath(dungeonRaidId, encounter.id)} className="hover:underline">
+              {title}
+            </Link>
+          ) : (
+            title
+          )}
+        </h2>
+        <CardDescription className="mt-1 flex flex-wrap items-center gap-2">
+          <Badge variant="outline">{encounter.type}</Badge>
+          {encounter.mechanics.length} mechanic{encounter.mechanics.length === 1 ? '' : 's'}
+        </CardDescription>
+        <p className="text-sm text-muted-foreground mt-2">{encounter.description}</p>
+      </div>
+      <div className="space-y-4 pb-8">
+        {mechanics.map((mechanic) => (
+          <MechanicArticle key={mechanic.id} mechanic={mechanic} />
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { BookOpen, ExternalLink, Loader2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { CitationSource, Mechanic } from '@/lib/types';
+
+interface MechanicRecord {
+  mechanic: Mechanic;
+  encounter: { id: string; name: string };
+  dungeonRaid: { id: string; name: string };
+}
+
+// Full mechanic records are immutable for the life of the page, so fetch each once
+const recordCache = new Map<string, MechanicRecord>();
+
+async function fetchMechanicRecord(mechanicId: string): Promise<MechanicRecord> {
+  const cached = recordCache.get(mechanicId);
+  if (cached) return cached;
+
+  const response = await fetch(`/api/mechanics/${encodeURIComponent(mechanicId)}`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load mechanic');
+  }
+  recordCache.set(mechanicId, data);
+  return data;
+}
+
+interface MechanicSourcesProps {
+  sources: CitationSource[];
+  openMechanicId: string | null;
+  onOpenChange: (mechanicId: string | null) => void;
+}
+
+/**
+ * Source chips for the mechanics an answer drew on. Clicking a chip (or an inline
+ * citation number) opens the full Mechanic record below the chips.
+ */
+export function MechanicSources({ sources, openMechanicId, onOpenChange }: MechanicSourcesProps) {
+  const [records, setRecords] = useState<Record<string, MechanicRecord>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Load the record whenever a source is opened
+  useEffect(() => {
+    if (!openMechanicId) return;
+    fetchMechanicRecord(openMechanicId)
+      .then((loaded) => setRecords((prev) => ({ ...prev, [openMechanicId]: loaded })))
+      .catch((err) =>
+        setErrors((prev) => ({ ...prev, [openMechanicId]: err instanceof Error ? err.message : 'Failed to load mechanic' }))
+      );
+  }, [openMechanicId]);
+
+  const record = openMechanicId ? records[openMechanicId] ?? recordCache.get(openMechanicId) : undefined;
+  const error = openMechanicId ? errors[openMechanicId] : undefined;
+
+  if (sources.length === 0) {
+    return null;
+  }
+
+  const openSource = sources.find((source) => source.mechanicId === openMechanicId);
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex flex-wrap gap-1.5">
+        {sources.map((source) => (
+          <button
+            key={source.key}
+            type="button"
+            onClick={() => onOpenChange(source.mechanicId === openMechanicId ? null : source.mechanicId)}
+            title={`${source.dungeonRaid.name} • ${source.encounter.name} • ${(source.score * 100).toFixed(0)}% match`}
+          >
+            <Badge variant={source.mechanicId === openMechanicId ? 'default' : 'outline'} className="cursor-pointer gap-1">
+              <span className="font-mono">{source.number}</span>
+              {source.mechanicName}
+            </Badge>
+          </button>
+        ))}
+      </div>
+
+      {openSource && (
+        <Card className="bg-background">
+          <CardHeader className="pb-2">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <BookOpen className="h-4 w-4" />
+                  {openSource.mechanicName}
+                </CardTitle>
+                <CardDescription className="text-xs mt-1">
+                  {openSource.dungeonRaid.name} • {openSource.encounter.name}
+                </CardDescription>
+              </div>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onOpenChange(null)} title="Close">
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3 text-xs">
+            {error && <p className="text-destructive">{error}</p>}
+            {!error && !record && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Loading mechanic...
+              </div>
+            )}
+            {record && (
+              <>
+                <div className="flex flex-wrap gap-1.5">
+                  <Badge>{record.mechanic.type}</Badge>
+                  {record.mechanic.difficulty && <Badge variant="secondary">{record.mechanic.difficulty}</Badge>}
+                  {record.mechanic.contestModeSpecific && <Badge variant="destructive">Contest Mode</Badge>}
+                </div>
+                <div>
+                  <h4 className="font-semibold mb-1">Description</h4>
+                  <p className="text-muted-foreground">{record.mechanic.description}</p>
+                </div>
+                {record.mechanic.solution && (
+                  <div>
+                    <h4 className="font-semibold mb-1">Solution</h4>
+                    <p className="text-muted-foreground">{record.mechanic.solution}</p>
+                  </div>
+                )}
+                {record.mechanic.tips && record.mechanic.tips.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold mb-1">Tips</h4>
+                    <ul className="list-disc list-inside space-y-1 text-muted-foreground">
+                      {record.mechanic.tips.map((tip, idx) => (
+                        <li key={idx}>{tip}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {record.mechanic.contestModeNotes && (
+                  <div>
+                    <h4 className="font-semibold mb-1">Contest Mode Notes</h4>
+                    <p className="text-muted-foreground">{record.mechanic.contestModeNotes}</p>
+                  </div>
+                )}
+                <Link
+                  href={`/dungeons/${record.dungeonRaid.id}/${record.encounter.id}#${record.mechanic.id}`}
+                  target="_blank"
+                  className="inline-flex items-center gap-1 text-primary hover:underline"
+                >
+                  View in encounter guide
+                  <ExternalLink className="h-3 w-3" />
+                </Link>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
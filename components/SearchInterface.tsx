@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { Search, Loader2, ChevronDown, ChevronUp, Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -15,40 +15,100 @@ import {
 } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
-import type { SearchResult } from '@/lib/types';
+import { fetchCatalog } from '@/lib/catalog';
+import { getMechanicRole, isFlowMechanic } from '@/lib/mechanic-roles';
+import { tokenize } from '@/lib/tokenize';
+import type { SearchFilters, SearchUrlState } from '@/lib/search-url';
+import type { Catalog, ChunkHighlight, SearchResult } from '@/lib/types';
 
 /**
- * Check if a mechanic is an encounter flow mechanic
+ * Describe how a result's score was assembled from semantic and lexical retrieval
  */
-function isEncounterFlowMechanic(mechanicName: string): boolean {
-  const flowKeywords = ['flow', 'strategy', 'progression', 'overall encounter'];
-  const nameLower = mechanicName.toLowerCase();
-  return flowKeywords.some(keyword => nameLower.includes(keyword));
+function describeScores(result: SearchResult): string | undefined {
+  if (!result.scores) return undefined;
+  const { semantic, semanticRank, lexical, lexicalRank, fused } = result.scores;
+  const parts = [
+    semanticRank !== undefined
+      ? `Semantic: #${semanticRank} (${((semantic ?? 0) * 100).toFixed(0)}%)`
+      : 'Semantic: no match',
+    lexicalRank !== undefined
+      ? `Keyword: #${lexicalRank} (BM25 ${(lexical ?? 0).toFixed(2)})`
+      : 'Keyword: no match',
+    `Fused: ${(fused * 100).toFixed(0)}%`,
+  ];
+  return parts.join('\n');
+}
+
+const HIGHLIGHT_FIELD_LABELS: Record<ChunkHighlight['field'], string> = {
+  description: 'Description',
+  solution: 'Solution',
+  tips: 'Tips',
+  contestModeNotes: 'Contest Mode',
+};
+
+/**
+ * The passage of a result that best matched the query, with matched terms marked
+ */
+function HighlightedPassage({ highlight }: { highlight: ChunkHighlight }) {
+  const terms = new Set(highlight.terms);
+  // Split on word boundaries, keeping the separators so the text is reassembled exactly
+  const parts = highlight.text.split(/([A-Za-z0-9'’]+)/);
+  return (
+    <p className="text-sm text-muted-foreground border-l-2 border-primary/40 pl-3 mt-3">
+      <span className="font-semibold text-foreground">{HIGHLIGHT_FIELD_LABELS[highlight.field]}: </span>
+      {parts.map((part, index) =>
+        tokenize(part).some((token) => terms.has(token)) ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">{part}</mark>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
 }
 
 interface SearchInterfaceProps {
   quickReferenceMode?: boolean;
+  initialSearch?: SearchUrlState; // Search to restore (and run) on mount, e.g. from a shared link
+  onSearchChange?: (search: SearchUrlState) => void; // Called when a search runs or a filter changes
 }
 
-export function SearchInterface({ quickReferenceMode = false }: SearchInterfaceProps) {
-  const [query, setQuery] = useState('');
+export function SearchInterface({ quickReferenceMode = false, initialSearch, onSearchChange }: SearchInterfaceProps) {
+  const [query, setQuery] = useState(initialSearch?.query ?? '');
+  // Query of the last search that ran, which is what gets shared
+  const [searchedQuery, setSearchedQuery] = useState(initialSearch?.query ?? '');
   const [results, setResults] = useState<SearchResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
   
-  // Filters
-  const [dungeonRaidName, setDungeonRaidName] = useState<string>('');
-  const [encounterType, setEncounterType] = useState<string>('');
-  const [mechanicType, setMechanicType] = useState<string>('');
-  const [difficulty, setDifficulty] = useState<string>('');
-  const [contestModeOnly, setContestModeOnly] = useState<boolean>(false);
+  // Filters (Quick Reference searches everything)
+  const [filters, setFilters] = useState<SearchFilters>(initialSearch?.filters ?? {});
+  const { dungeonRaidName, encounterId, encounterType, mechanicType, difficulty, contestModeOnly } = quickReferenceMode ? {} : filters;
+  // Filter options derived from the loaded data
+  const [catalog, setCatalog] = useState<Catalog | null>(null);
+  const selectedDungeon = catalog?.dungeonRaids.find((dungeon) => dungeon.name === dungeonRaidName);
+
+  useEffect(() => {
+    if (quickReferenceMode) return;
+    fetchCatalog()
+      .then(setCatalog)
+      .catch((err) => console.error('Failed to load catalog:', err));
+  }, [quickReferenceMode]);
+
+  const updateFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => {
+    const next = { ...filters, [key]: value || undefined };
+    setFilters(next);
+    onSearchChange?.({ query: searchedQuery, filters: next });
+  };
 
   const handleSearch = useCallback(async () => {
     if (!query.trim()) return;
 
     setLoading(true);
     setError(null);
+    setSearchedQuery(query);
+    onSearchChange?.({ query, filters });
 
     try {
       const response = await fetch('/api/search', {
@@ -60,6 +120,7 @@ export function SearchInterface({ quickReferenceMode = false }: SearchInterfaceP
           query,
           filters: {
             ...(dungeonRaidName && { dungeonRaidName }),
+            ...(encounterId && { encounterId }),
             ...(encounterType && { encounterType }),
             ...(mechanicType && { mechanicType }),
             ...(difficulty && { difficulty }),
@@ -82,7 +143,16 @@ export function SearchInterface({ quickReferenceMode = false }: SearchInterfaceP
     } finally {
       setLoading(false);
     }
-  }, [query, dungeonRaidName, encounterType, mechanicType, difficulty, contestModeOnly, quickReferenceMode]);
+  }, [query, filters, onSearchChange, dungeonRaidName, encounterId, encounterType, mechanicType, difficulty, contestModeOnly, quickReferenceMode]);
+
+  // Run the restored search once, so opening a shared link shows its results
+  const initialSearchRan = useRef(false);
+  useEffect(() => {
+    if (!initialSearchRan.current && initialSearch?.query) {
+      initialSearchRan.current = true;
+      handleSearch();
+    }
+  }, [initialSearch, handleSearch]);
 
   const toggleExpand = (id: string) => {
     setExpandedCards((prev) => {
@@ -102,7 +172,7 @@ export function SearchInterface({ quickReferenceMode = false }: SearchInterfaceP
       setExpandedCards((prev) => {
         const next = new Set(prev);
         results.forEach((result) => {
-          if (isEncounterFlowMechanic(result.mechanic.name)) {
+          if (isFlowMechanic(result.mechanic)) {
             next.add(result.id);
           }
         });
@@ -142,64 +212,91 @@ export function SearchInterface({ quickReferenceMode = false }: SearchInterfaceP
         {/* Filters */}
         {!quickReferenceMode && (
           <div className="flex flex-wrap gap-2">
-            <Select value={dungeonRaidName || 'all'} onValueChange={(value) => setDungeonRaidName(value === 'all' ? '' : value)}>
+            <Select
+              value={dungeonRaidName || 'all'}
+              onValueChange={(value) => {
+                // An encounter only makes sense within its dungeon
+                const next = { ...filters, dungeonRaidName: value === 'all' ? undefined : value, encounterId: undefined };
+                setFilters(next);
+                onSearchChange?.({ query: searchedQuery, filters: next });
+              }}
+            >
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="All Dungeons/Raids" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Dungeons/Raids</SelectItem>
-                <SelectItem value="Vesper's Host">Vesper's Host (3-player, soloable)</SelectItem>
-                <SelectItem value="Sundered Doctrine">Sundered Doctrine (3-player, soloable)</SelectItem>
-                <SelectItem value="Leviathan">Leviathan (Cabal/Star Wars themed)</SelectItem>
-                <SelectItem value="Vow of the Disciple">Vow of the Disciple</SelectItem>
-                <SelectItem value="Duality">Duality</SelectItem>
-                <SelectItem value="Spire of the Watcher">Spire of the Watcher</SelectItem>
+                {catalog?.dungeonRaids.map((dungeon) => (
+                  <SelectItem key={dungeon.id} value={dungeon.name}>
+                    {dungeon.name} ({dungeon.mechanicCount})
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
-            <Select value={encounterType || 'all'} onValueChange={(value) => setEncounterType(value === 'all' ? '' : value)}>
-              <SelectTrigger className="w-[150px]">
+            <Select
+              value={encounterId || 'all'}
+              onValueChange={(value) => updateFilter('encounterId', value === 'all' ? '' : value)}
+              disabled={!selectedDungeon}
+            >
+              <SelectTrigger className="w-[180px]" title={selectedDungeon ? undefined : 'Choose a dungeon/raid first'}>
                 <SelectValue placeholder="All Encounters" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Encounters</SelectItem>
-                <SelectItem value="opening">Opening</SelectItem>
-                <SelectItem value="encounter">Encounter</SelectItem>
-                <SelectItem value="boss">Boss</SelectItem>
-                <SelectItem value="traversal">Traversal</SelectItem>
+                {selectedDungeon?.encounters.map((encounter) => (
+                  <SelectItem key={encounter.id} value={encounter.id}>
+                    {encounter.order !== undefined && `${encounter.order}. `}{encounter.name} ({encounter.mechanicCount})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={encounterType || 'all'} onValueChange={(value) => updateFilter('encounterType', value === 'all' ? '' : value)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue placeholder="All Encounter Types" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Encounter Types</SelectItem>
+                {catalog?.encounterTypes.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label} ({option.count})
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
-            <Select value={mechanicType || 'all'} onValueChange={(value) => setMechanicType(value === 'all' ? '' : value)}>
+            <Select value={mechanicType || 'all'} onValueChange={(value) => updateFilter('mechanicType', value === 'all' ? '' : value)}>
               <SelectTrigger className="w-[150px]">
                 <SelectValue placeholder="All Mechanics" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Mechanics</SelectItem>
-                <SelectItem value="puzzle">Puzzle</SelectItem>
-                <SelectItem value="boss">Boss</SelectItem>
-                <SelectItem value="symbol">Symbol</SelectItem>
-                <SelectItem value="plate">Plate</SelectItem>
-                <SelectItem value="add-clear">Add Clear</SelectItem>
+                {catalog?.mechanicTypes.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label} ({option.count})
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
-            <Select value={difficulty || 'all'} onValueChange={(value) => setDifficulty(value === 'all' ? '' : value)}>
+            <Select value={difficulty || 'all'} onValueChange={(value) => updateFilter('difficulty', value === 'all' ? '' : value)}>
               <SelectTrigger className="w-[130px]">
                 <SelectValue placeholder="All Difficulties" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Difficulties</SelectItem>
-                <SelectItem value="easy">Easy</SelectItem>
-                <SelectItem value="medium">Medium</SelectItem>
-                <SelectItem value="hard">Hard</SelectItem>
-                <SelectItem value="expert">Expert</SelectItem>
+                {catalog?.difficulties.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label} ({option.count})
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
             <Button
               variant={contestModeOnly ? 'default' : 'outline'}
-              onClick={() => setContestModeOnly(!contestModeOnly)}
+              onClick={() => updateFilter('contestModeOnly', !contestModeOnly)}
             >
               Contest Mode Only
             </Button>
@@ -247,12 +344,13 @@ export function SearchInterface({ quickReferenceMode = false }: SearchInterfaceP
           <div className="space-y-4">
             {results.map((result) => {
               const isExpanded = expandedCards.has(result.id);
-              const isFlowMechanic = isEncounterFlowMechanic(result.mechanic.name);
+              const isFlow = isFlowMechanic(result.mechanic);
+              const role = getMechanicRole(result.mechanic);
               return (
                 <Card 
                   key={result.id} 
                   className={`transition-all ${
-                    isFlowMechanic 
+                    isFlow 
                       ? 'border-2 border-primary bg-primary/5 shadow-lg' 
                       : ''
                   }`}
@@ -261,14 +359,14 @@ export function SearchInterface({ quickReferenceMode = false }: SearchInterfaceP
                     <div className="flex items-start justify-between">
                       <div className="flex-1">
                         <CardTitle className="flex items-center gap-2">
-                          {isFlowMechanic && (
+                          {isFlow && (
                             <Sparkles className="h-5 w-5 text-primary" />
                           )}
                           {result.mechanic.name}
-                          <Badge variant="outline">
+                          <Badge variant="outline" title={describeScores(result)}>
                             {(result.score * 100).toFixed(0)}% match
                           </Badge>
-                          {isFlowMechanic && (
+                          {isFlow && (
                             <Badge variant="default" className="bg-primary text-primary-foreground">
                               ⭐ ENCOUNTER FLOW
                             </Badge>
@@ -292,6 +390,9 @@ export function SearchInterface({ quickReferenceMode = false }: SearchInterfaceP
                     </div>
                     <div className="flex flex-wrap gap-2 mt-2">
                       <Badge>{result.mechanic.type}</Badge>
+                      {(role === 'tip' || role === 'callout') && (
+                        <Badge variant="outline">{role}</Badge>
+                      )}
                       {result.mechanic.difficulty && (
                         <Badge variant="secondary">{result.mechanic.difficulty}</Badge>
                       )}
@@ -299,6 +400,7 @@ export function SearchInterface({ quickReferenceMode = false }: SearchInterfaceP
                         <Badge variant="destructive">Contest Mode</Badge>
                       )}
                     </div>
+                    {result.highlight && <HighlightedPassage highlight={result.highlight} />}
                   </CardHeader>
                   {isExpanded && (
                     <CardContent className="space-y-4">
@@ -0,0 +1,65 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { ChatModelGenerateOptions, ChatModelProvider, ChatModelRequest, ChatModelStreamOptions } from './llm';
+
+/**
+ * Chat model backed by the Anthropic Messages API.
+ * The client is created on first use so importing this module never requires an API key.
+ */
+export class AnthropicChatModel implements ChatModelProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic | null = null;
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
+      if (!ANTHROPIC_API_KEY) {
+        throw new Error('ANTHROPIC_API_KEY environment variable is not set');
+      }
+      this.client = new Anthropic({
+        apiKey: ANTHROPIC_API_KEY,
+      });
+    }
+    return this.client;
+  }
+
+  private buildParams(request: ChatModelRequest): Anthropic.MessageCreateParamsNonStreaming {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      system: request.system,
+      messages: request.messages.map((msg): Anthropic.MessageParam => ({
+        role: msg.role,
+        content: msg.content,
+      })),
+    };
+  }
+
+  async generate(request: ChatModelRequest, options: ChatModelGenerateOptions = {}): Promise<string> {
+    const response = await this.getClient().messages.create(this.buildParams(request), { signal: options.signal });
+
+    const content = response.content[0];
+    if (content?.type === 'text') {
+      return content.text;
+    }
+
+    throw new Error('Unexpected response format from Claude API');
+  }
+
+  async *stream(
+    request: ChatModelRequest,
+    options: ChatModelStreamOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    const stream = this.getClient().messages.stream(this.buildParams(request), { signal: options.signal });
+
+    // Breaking out of this loop (the consumer stopped reading) aborts the upstream request
+    for await (const chunk of stream) {
+      if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
+        yield chunk.delta.text;
+      }
+    }
+
+    const { usage } = await stream.finalMessage();
+    options.onUsage?.({ inputTokens: usage.input_tokens, outputTokens: usage.output_tokens });
+  }
+}
@@ -0,0 +1,105 @@
+import { tokenize } from './tokenize';
+
+// Standard Okapi BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Words too common to say anything about which mechanic a query is about
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'i', 'if',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'them', 'then', 'there',
+  'these', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'will', 'with', 'you',
+]);
+
+/**
+ * Tokens BM25 indexes and matches on (stopwords removed)
+ */
+export function bm25Tokens(text: string): string[] {
+  return tokenize(text).filter((token) => !STOPWORDS.has(token));
+}
+
+export interface Bm25Document {
+  id: string;
+  text: string;
+}
+
+/**
+ * In-memory BM25 index for exact-term matching (proper nouns, item names)
+ * that dense embeddings tend to blur
+ */
+export class Bm25Index {
+  private readonly termFrequencies = new Map<string, Map<string, number>>();
+  private readonly documentLengths = new Map<string, number>();
+  private readonly documentFrequencies = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(documents: Bm25Document[]) {
+    let totalLength = 0;
+    
+    for (const doc of documents) {
+      const tokens = bm25Tokens(doc.text);
+      const frequencies = new Map<string, number>();
+      for (const token of tokens) {
+        frequencies.set(token, (frequencies.get(token) || 0) + 1);
+      }
+      for (const term of frequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      }
+      
+      this.termFrequencies.set(doc.id, frequencies);
+      this.documentLengths.set(doc.id, tokens.length);
+      totalLength += tokens.length;
+    }
+    
+    this.averageLength = documents.length > 0 ? totalLength / documents.length : 0;
+  }
+
+  get size(): number {
+    return this.documentLengths.size;
+  }
+
+  private idf(term: string): number {
+    const df = this.documentFrequencies.get(term) || 0;
+    // BM25+ style floor keeps very common terms from going negative
+    return Math.log(1 + (this.size - df + 0.5) / (df + 0.5));
+  }
+
+  /**
+   * Rank documents against a query, highest score first.
+   * Documents with no matching terms are omitted.
+   */
+  search(
+    query: string,
+    options: { topK?: number; include?: (id: string) => boolean } = {}
+  ): Array<{ id: string; score: number }> {
+    const queryTerms = Array.from(new Set(bm25Tokens(query)));
+    if (queryTerms.length === 0) {
+      return [];
+    }
+    
+    const results: Array<{ id: string; score: number }> = [];
+    for (const [id, frequencies] of this.termFrequencies) {
+      if (options.include && !options.include(id)) {
+        continue;
+      }
+      
+      const length = this.documentLengths.get(id) || 0;
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = frequencies.get(term);
+        if (!tf) {
+          continue;
+        }
+        const normalization = K1 * (1 - B + B * (length / (this.averageLength || 1)));
+        score += this.idf(term) * ((tf * (K1 + 1)) / (tf + normalization));
+      }
+      
+      if (score > 0) {
+        results.push({ id, score });
+      }
+    }
+    
+    results.sort((a, b) => b.score - a.score);
+    return options.topK ? results.slice(0, options.topK) : results;
+  }
+}
@@ -1,41 +1,107 @@
-// Simple in-memory cache
-// In production, consider using Redis or Next.js cache
+import { LruCache } from './lru-cache';
+import { FileCache, getFileCacheDir } from './file-cache';
 
-interface CacheEntry<T> {
-  data: T;
-  expiresAt: number;
+const DEFAULT_TTL_MS = 60000;
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const DEFAULT_SWEEP_INTERVAL_MS = 60000;
+
+export interface CacheStats {
+  backend: string;
+  entries: number;
+  bytes: number; // Approximate size of the stored values
+  hits: number;
+  misses: number;
+  evictions: number; // Entries removed to stay within maxEntries/maxBytes
+  expired: number; // Entries removed because their TTL passed
 }
 
-const cache = new Map<string, CacheEntry<any>>();
+/**
+ * Limits shared by the cache backends. Either limit evicts least recently used entries first.
+ */
+export interface CacheLimits {
+  maxEntries: number;
+  maxBytes: number;
+  sweepIntervalMs: number; // How often expired entries are removed; 0 disables sweeping
+}
+
+/**
+ * Key-value cache with per-entry TTL. Values must be JSON-serializable so every
+ * backend stores them the same way.
+ */
+export interface Cache {
+  readonly name: string;
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  stats(): Promise<CacheStats>;
+}
+
+export type CacheBackend = 'memory' | 'file';
+
+let cacheInstance: Cache | null = null;
+
+function parseLimit(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${name} "${value}" (expected a non-negative number)`);
+  }
+  return parsed;
+}
 
-export function get<T>(key: string): T | null {
-  const entry = cache.get(key);
-  
-  if (!entry) {
-    return null;
+/**
+ * Backend selected by the CACHE_BACKEND environment variable (defaults to memory)
+ */
+export function getCacheBackend(): CacheBackend {
+  const backend = (process.env.CACHE_BACKEND || 'memory').toLowerCase();
+  if (backend !== 'memory' && backend !== 'file') {
+    throw new Error(`Unknown CACHE_BACKEND "${process.env.CACHE_BACKEND}" (expected "memory" or "file")`);
   }
-  
-  if (entry.expiresAt < Date.now()) {
-    cache.delete(key);
-    return null;
+  return backend;
+}
+
+/**
+ * Limits from CACHE_MAX_ENTRIES, CACHE_MAX_BYTES and CACHE_SWEEP_INTERVAL_MS
+ */
+export function getCacheLimits(): CacheLimits {
+  return {
+    maxEntries: parseLimit('CACHE_MAX_ENTRIES', DEFAULT_MAX_ENTRIES),
+    maxBytes: parseLimit('CACHE_MAX_BYTES', DEFAULT_MAX_BYTES),
+    sweepIntervalMs: parseLimit('CACHE_SWEEP_INTERVAL_MS', DEFAULT_SWEEP_INTERVAL_MS),
+  };
+}
+
+/**
+ * Get the configured cache, creating it on first use
+ */
+export function getCache(): Cache {
+  if (!cacheInstance) {
+    cacheInstance = getCacheBackend() === 'file'
+      ? new FileCache(getFileCacheDir(), getCacheLimits())
+      : new LruCache(getCacheLimits());
   }
-  
-  return entry.data;
+  return cacheInstance;
+}
+
+export async function get<T>(key: string): Promise<T | null> {
+  return getCache().get<T>(key);
 }
 
-export function set<T>(key: string, data: T, ttlMs: number = 60000): void {
-  cache.set(key, {
-    data,
-    expiresAt: Date.now() + ttlMs,
-  });
+export async function set<T>(key: string, data: T, ttlMs: number = DEFAULT_TTL_MS): Promise<void> {
+  return getCache().set(key, data, ttlMs);
 }
 
-export function del(key: string): void {
-  cache.delete(key);
+export async function del(key: string): Promise<void> {
+  return getCache().delete(key);
 }
 
-export function clear(): void {
-  cache.clear();
+export async function clear(): Promise<void> {
+  return getCache().clear();
 }
 
 /**
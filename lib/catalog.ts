@@ -0,0 +1,114 @@
+import {
+  EncounterSchema,
+  MechanicSchema,
+  type Catalog,
+  type CatalogDungeonRaid,
+  type CatalogOption,
+  type DungeonRaid,
+  type Encounter,
+  type Mechanic,
+} from './types';
+
+// The parts of a stored mechanic the catalog is built from
+type CatalogMechanic = {
+  mechanic: Pick<Mechanic, 'type' | 'difficulty'>;
+  encounter: Pick<Encounter, 'id' | 'name' | 'type' | 'order'>;
+  dungeonRaid: Pick<DungeonRaid, 'id' | 'name' | 'type'>;
+};
+
+/**
+ * Display label for an enum value ("add-clear" -> "Add Clear")
+ */
+function formatLabel(value: string): string {
+  return value
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Count mechanics per value, listing values in the schema's order and leaving out
+ * values no mechanic has
+ */
+function countOptions(values: Array<string | undefined>, order: readonly string[]): CatalogOption[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+  const rank = (value: string) => (order.includes(value) ? order.indexOf(value) : order.length);
+  return Array.from(counts, ([value, count]) => ({ value, label: formatLabel(value), count })).sort(
+    (a, b) => rank(a.value) - rank(b.value) || a.value.localeCompare(b.value)
+  );
+}
+
+/**
+ * Derive the filter options (dungeons, their encounters, mechanic types and
+ * difficulties) and mechanic counts from the loaded mechanics
+ */
+export function buildCatalog(mechanics: CatalogMechanic[]): Catalog {
+  const dungeonRaids = new Map<string, CatalogDungeonRaid>();
+
+  for (const { encounter, dungeonRaid } of mechanics) {
+    let dungeon = dungeonRaids.get(dungeonRaid.id);
+    if (!dungeon) {
+      dungeon = { id: dungeonRaid.id, name: dungeonRaid.name, type: dungeonRaid.type, mechanicCount: 0, encounters: [] };
+      dungeonRaids.set(dungeonRaid.id, dungeon);
+    }
+    dungeon.mechanicCount++;
+
+    let catalogEncounter = dungeon.encounters.find((candidate) => candidate.id === encounter.id);
+    if (!catalogEncounter) {
+      catalogEncounter = { id: encounter.id, name: encounter.name, type: encounter.type, order: encounter.order, mechanicCount: 0 };
+      dungeon.encounters.push(catalogEncounter);
+    }
+    catalogEncounter.mechanicCount++;
+  }
+
+  for (const dungeon of dungeonRaids.values()) {
+    // Unordered encounters go last
+    dungeon.encounters.sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity));
+  }
+
+  return {
+    mechanicCount: mechanics.length,
+    dungeonRaids: Array.from(dungeonRaids.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    encounterTypes: countOptions(
+      mechanics.map(({ encounter }) => encounter.type),
+      EncounterSchema.shape.type.options
+    ),
+    mechanicTypes: countOptions(
+      mechanics.map(({ mechanic }) => mechanic.type),
+      MechanicSchema.shape.type.options
+    ),
+    difficulties: countOptions(
+      mechanics.map(({ mechanic }) => mechanic.difficulty),
+      MechanicSchema.shape.difficulty.unwrap().options
+    ),
+  };
+}
+
+let catalogRequest: Promise<Catalog> | null = null;
+
+/**
+ * Fetch the catalog from /api/catalog in the browser, once per page load
+ */
+export function fetchCatalog(): Promise<Catalog> {
+  if (!catalogRequest) {
+    catalogRequest = fetch('/api/catalog')
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load catalog');
+        }
+        return data as Catalog;
+      })
+      .catch((error) => {
+        // Let the next caller retry
+        catalogRequest = null;
+        throw error;
+      });
+  }
+  return catalogRequest;
+}
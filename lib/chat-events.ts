@@ -0,0 +1,121 @@
+import type { ChatUsage, CitationSource, ContextReport, ConversationSummary } from './types';
+
+/**
+ * Events sent by /api/chat, in order: retrieval-started, rewritten-query, context,
+ * sources, then token events as the answer streams, usage, summary (only when older
+ * messages were summarized), and finally done. A failure mid-stream sends an error
+ * event and ends the stream without done.
+ */
+export type ChatStreamEvent =
+  | { type: 'retrieval-started'; query: string }
+  | {
+      type: 'rewritten-query';
+      query: string; // Standalone query used for retrieval
+      original: string;
+      rewritten: boolean;
+      dungeonRaidName?: string;
+      encounterName?: string;
+    }
+  | { type: 'sources'; sources: CitationSource[] }
+  | { type: 'summary'; summary: ConversationSummary } // Updated summary to store with the conversation
+  | { type: 'context'; report: ContextReport } // How the context was fitted into the token budget
+  | { type: 'token'; text: string }
+  | { type: 'usage'; usage: ChatUsage }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
+export type ChatStreamEventType = ChatStreamEvent['type'];
+
+// A record rather than a list so adding an event type without listing it here fails to compile
+const CHAT_EVENT_TYPES: Record<ChatStreamEventType, true> = {
+  'retrieval-started': true,
+  'rewritten-query': true,
+  sources: true,
+  summary: true,
+  context: true,
+  token: true,
+  usage: true,
+  error: true,
+  done: true,
+};
+
+function isChatStreamEventType(type: string): type is ChatStreamEventType {
+  return Object.hasOwn(CHAT_EVENT_TYPES, type);
+}
+
+/**
+ * Serialize an event as a Server-Sent Events frame. The event name goes in the
+ * `event:` field and the rest of the payload is JSON in `data:`.
+ */
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  const { type, ...data } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parse one Server-Sent Events frame (without the trailing blank line).
+ * Returns null for comments, keep-alives, unknown events and malformed data.
+ */
+function decodeChatEvent(frame: string): ChatStreamEvent | null {
+  let type: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) {
+      type = line.slice('event:'.length).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice('data:'.length).trimStart());
+    }
+  }
+
+  if (!type || !isChatStreamEventType(type) || dataLines.length === 0) {
+    return null;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(dataLines.join('\n'));
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return null;
+  }
+  return { ...data, type } as ChatStreamEvent;
+}
+
+/**
+ * Read the /api/chat response body as a sequence of typed events
+ */
+export async function* readChatEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ChatStreamEvent, void, unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      // Frames end with a blank line; keep any partial frame for the next read
+      const frames = buffer.split('\n\n');
+      buffer = frames.pop() ?? '';
+      for (const frame of frames) {
+        const event = decodeChatEvent(frame);
+        if (event) {
+          yield event;
+        }
+      }
+    }
+
+    const event = buffer.trim() ? decodeChatEvent(buffer) : null;
+    if (event) {
+      yield event;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,106 @@
+import type { ChunkField, DungeonRaid, Encounter, Mechanic } from './types';
+
+// Upper bound for one passage - roughly a short paragraph, small enough that one
+// idea dominates the chunk's embedding
+const MAX_CHUNK_CHARS = 600;
+
+export interface MechanicChunk {
+  id: string; // `${mechanicId}#${index}`
+  mechanicId: string;
+  index: number;
+  field: ChunkField;
+  passage: string; // The chunk's own text, shown as the highlighted passage
+  text: string; // Passage with mechanic/encounter/dungeon context, used for embedding and BM25
+}
+
+const FIELD_LABELS: Record<ChunkField, string> = {
+  description: 'Description',
+  solution: 'Solution',
+  tips: 'Tips',
+  contestModeNotes: 'Contest Mode',
+};
+
+/**
+ * Build the vector id of a mechanic's nth chunk
+ */
+export function getChunkId(mechanicId: string, index: number): string {
+  return `${mechanicId}#${index}`;
+}
+
+/**
+ * Split prose into sentences, keeping the terminating punctuation
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=["'(A-Z0-9])/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Greedily pack units (sentences or tips) into passages of at most maxChars.
+ * A unit longer than maxChars becomes its own passage rather than being cut mid-sentence.
+ */
+function packUnits(units: string[], separator: string, maxChars: number): string[] {
+  const passages: string[] = [];
+  let current = '';
+
+  for (const unit of units) {
+    if (current && current.length + separator.length + unit.length > maxChars) {
+      passages.push(current);
+      current = unit;
+    } else {
+      current = current ? `${current}${separator}${unit}` : unit;
+    }
+  }
+  if (current) {
+    passages.push(current);
+  }
+  return passages;
+}
+
+/**
+ * Split a mechanic into field- and sentence-aware chunks: description, solution,
+ * tips and contest notes are chunked separately, and long fields are split on
+ * sentence (or tip) boundaries. Every chunk's embedding text repeats the mechanic,
+ * encounter and dungeon names so it stands on its own.
+ */
+export function chunkMechanic(
+  mechanic: Mechanic,
+  encounter: Encounter,
+  dungeonRaid: DungeonRaid,
+  maxChars = MAX_CHUNK_CHARS
+): MechanicChunk[] {
+  const fields: Array<[ChunkField, string[]]> = [
+    ['description', packUnits(splitSentences(mechanic.description), ' ', maxChars)],
+    ['solution', packUnits(splitSentences(mechanic.solution || ''), ' ', maxChars)],
+    ['tips', packUnits((mechanic.tips || []).map(tip => tip.trim()).filter(Boolean), '\n', maxChars)],
+    ['contestModeNotes', packUnits(splitSentences(mechanic.contestModeNotes || ''), ' ', maxChars)],
+  ];
+  const header = [
+    `Mechanic: ${mechanic.name}`,
+    `Location: ${dungeonRaid.name}`,
+    `Encounter: ${encounter.name}`,
+  ].join('\n');
+
+  // Every mechanic gets at least one vector, even with an empty description
+  if (fields.every(([, passages]) => passages.length === 0)) {
+    fields[0][1].push(mechanic.name);
+  }
+
+  const chunks: MechanicChunk[] = [];
+  for (const [field, passages] of fields) {
+    for (const passage of passages) {
+      const index = chunks.length;
+      chunks.push({
+        id: getChunkId(mechanic.id, index),
+        mechanicId: mechanic.id,
+        index,
+        field,
+        passage,
+        text: `${header}\n${FIELD_LABELS[field]}: ${passage}`,
+      });
+    }
+  }
+  return chunks;
+}
@@ -0,0 +1,62 @@
+import type { CitationSource, SearchResult } from './types';
+
+// Matches "[cite:a]" and "[cite:a, cite:b]" in model output
+const CITATION_PATTERN = /\[(cite:[\w-]+(?:\s*,\s*(?:cite:)?[\w-]+)*)\]/g;
+
+/**
+ * Stable citation key for a mechanic, used in the context and in answers
+ */
+export function getCitationKey(mechanicId: string): string {
+  return `cite:${mechanicId}`;
+}
+
+/**
+ * Citation sources for retrieved mechanics, numbered in retrieval order
+ */
+export function buildCitationSources(results: SearchResult[]): CitationSource[] {
+  return results.map((result, index) => ({
+    key: getCitationKey(result.mechanic.id),
+    number: index + 1,
+    mechanicId: result.mechanic.id,
+    mechanicName: result.mechanic.name,
+    mechanicType: result.mechanic.type,
+    encounter: { id: result.encounter.id, name: result.encounter.name },
+    dungeonRaid: { id: result.dungeonRaid.id, name: result.dungeonRaid.name },
+    score: result.score,
+  }));
+}
+
+/**
+ * Mechanic ids cited in a group like "cite:a, cite:b" or "cite:a, b"
+ */
+function parseCitationGroup(group: string): string[] {
+  return group.split(',').map((part) => part.trim().replace(/^cite:/, ''));
+}
+
+/**
+ * Replace citation keys in an answer with numbered markdown links ("[1](#cite:id)"),
+ * dropping keys that don't match a source so invented citations never render
+ */
+export function linkCitations(text: string, sources: CitationSource[]): string {
+  const byMechanicId = new Map(sources.map((source) => [source.mechanicId, source]));
+  return text.replace(CITATION_PATTERN, (_match, group: string) =>
+    parseCitationGroup(group)
+      .map((mechanicId) => byMechanicId.get(mechanicId))
+      .filter((source): source is CitationSource => source !== undefined)
+      .map((source) => `[${source.number}](#${source.key})`)
+      .join('')
+  );
+}
+
+/**
+ * Mechanic ids cited anywhere in an answer
+ */
+export function getCitedMechanicIds(text: string): Set<string> {
+  const cited = new Set<string>();
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    for (const mechanicId of parseCitationGroup(match[1])) {
+      cited.add(mechanicId);
+    }
+  }
+  return cited;
+}
@@ -0,0 +1,50 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { ContestProfileSchema, type ContestProfile, type ContestStatus } from './types';
+
+const DEFAULT_CONTEST_PROFILE_PATH = 'data/contest.json';
+
+let cachedProfile: { path: string; profile: ContestProfile } | null = null;
+
+function getContestProfilePath(): string {
+  return process.env.CONTEST_PROFILE_PATH || DEFAULT_CONTEST_PROFILE_PATH;
+}
+
+/**
+ * The current contest profile (data/contest.json, or CONTEST_PROFILE_PATH).
+ * Read and validated once per process.
+ */
+export function loadContestProfile(): ContestProfile {
+  const profilePath = getContestProfilePath();
+  if (cachedProfile?.path === profilePath) {
+    return cachedProfile.profile;
+  }
+
+  const filePath = join(process.cwd(), profilePath);
+  if (!existsSync(filePath)) {
+    throw new Error(`Contest profile not found: ${profilePath}`);
+  }
+  const profile = ContestProfileSchema.parse(JSON.parse(readFileSync(filePath, 'utf-8')));
+  cachedProfile = { path: profilePath, profile };
+  return profile;
+}
+
+/**
+ * Whether contest mode hasn't started, is running, or is over at `now`
+ */
+export function getContestStatus(profile: ContestProfile, now: Date = new Date()): ContestStatus {
+  const start = new Date(profile.startTime).getTime();
+  const end = start + profile.durationHours * 60 * 60 * 1000;
+  if (now.getTime() < start) {
+    return 'upcoming';
+  }
+  return now.getTime() < end ? 'live' : 'ended';
+}
+
+/**
+ * Score boost for a result from `dungeonRaidName`: the profile's referenceBoost for
+ * reference dungeons, otherwise 0. Scores are multiplied by 1 + the boost.
+ */
+export function getReferenceDungeonBoost(dungeonRaidName: string, profile: ContestProfile = loadContestProfile()): number {
+  return profile.referenceDungeons.includes(dungeonRaidName) ? profile.referenceBoost : 0;
+}
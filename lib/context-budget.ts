@@ -0,0 +1,184 @@
+import type { ContextReport, ContextSection, ContextSectionReport, DroppedContextItem } from './types';
+
+// Total tokens for retrieved context plus conversation history (the system prompt template is extra)
+const DEFAULT_CONTEXT_TOKEN_BUDGET = 12000;
+
+// Share of the budget each section starts with. Whatever a section doesn't use rolls
+// over to the next one in CONTEXT_SECTIONS order.
+const DEFAULT_SECTION_SHARES: Record<ContextSection, number> = {
+  session: 0.2,
+  flow: 0.35,
+  other: 0.25,
+  history: 0.2,
+};
+
+export const CONTEXT_SECTIONS: ContextSection[] = ['session', 'flow', 'other', 'history'];
+
+// A truncated item needs room for at least this much to still be useful
+const MIN_TRUNCATED_TOKENS = 40;
+
+const TRUNCATION_MARKER = ' [...]';
+
+export interface ContextBudget {
+  totalTokens: number;
+  shares: Record<ContextSection, number>;
+}
+
+/**
+ * One item competing for a section's budget. `compact` is a shorter form used when
+ * `full` doesn't fit, e.g. a mechanic without its tips and solution.
+ */
+export interface ContextBlock {
+  id: string;
+  label: string;
+  full: string;
+  compact?: string;
+}
+
+export interface FittedSection {
+  items: Array<{ id: string; text: string }>; // Blocks that fit, in the original order
+  report: ContextSectionReport;
+  dropped: DroppedContextItem[];
+}
+
+/**
+ * Rough token count: ~4 characters per token, which holds well enough for English
+ * text across the supported models
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Cut `text` to about `maxTokens`, at a word boundary where possible
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+  const maxChars = Math.max(0, maxTokens * 4 - TRUNCATION_MARKER.length);
+  const cut = text.slice(0, maxChars);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > maxChars / 2 ? cut.slice(0, lastSpace) : cut}${TRUNCATION_MARKER}`;
+}
+
+/**
+ * Budget from CONTEXT_TOKEN_BUDGET, split with the default section shares
+ */
+export function getContextBudget(overrides: Partial<ContextBudget> = {}): ContextBudget {
+  const fromEnv = Number(process.env.CONTEXT_TOKEN_BUDGET);
+  return {
+    totalTokens: overrides.totalTokens ?? (fromEnv > 0 ? fromEnv : DEFAULT_CONTEXT_TOKEN_BUDGET),
+    shares: { ...DEFAULT_SECTION_SHARES, ...overrides.shares },
+  };
+}
+
+/**
+ * Fit blocks into `availableTokens` in priority order. Each block goes in full if it
+ * fits, otherwise as its compact form, otherwise cut down to the space left, and is
+ * dropped only when even that would be too small to be useful. With `contiguous`,
+ * everything after the first dropped block is dropped too, so history has no gaps.
+ */
+export function fitBlocks(
+  section: ContextSection,
+  blocks: ContextBlock[],
+  availableTokens: number,
+  contiguous = false
+): FittedSection {
+  const items: FittedSection['items'] = [];
+  const dropped: DroppedContextItem[] = [];
+  const report: ContextSectionReport = { budgetTokens: availableTokens, usedTokens: 0, included: 0, truncated: 0, dropped: 0 };
+
+  for (const block of blocks) {
+    const remaining = availableTokens - report.usedTokens;
+    let text: string | undefined;
+    let truncated = false;
+
+    const afterGap = contiguous && report.dropped > 0;
+    if (!afterGap && estimateTokens(block.full) <= remaining) {
+      text = block.full;
+    } else if (!afterGap && remaining >= MIN_TRUNCATED_TOKENS) {
+      text = truncateToTokens(block.compact ?? block.full, remaining);
+      truncated = true;
+    }
+
+    if (text === undefined) {
+      report.dropped++;
+      dropped.push({ section, id: block.id, label: block.label, action: 'dropped' });
+      continue;
+    }
+
+    items.push({ id: block.id, text });
+    report.usedTokens += estimateTokens(text);
+    report.included++;
+    if (truncated) {
+      report.truncated++;
+      dropped.push({ section, id: block.id, label: block.label, action: 'truncated' });
+    }
+  }
+
+  return { items, report, dropped };
+}
+
+/**
+ * Take an item that was fitted back out of a section, e.g. a message that can't be
+ * sent on its own, and report it as dropped
+ */
+export function dropFittedItem(fitted: FittedSection, section: ContextSection, id: string, label: string): void {
+  const index = fitted.items.findIndex((item) => item.id === id);
+  if (index === -1) {
+    return;
+  }
+  const [item] = fitted.items.splice(index, 1);
+  fitted.report.usedTokens -= estimateTokens(item.text);
+  fitted.report.included--;
+  fitted.report.dropped++;
+
+  const truncated = fitted.dropped.find((entry) => entry.id === id);
+  if (truncated) {
+    fitted.report.truncated--;
+    truncated.action = 'dropped';
+  } else {
+    fitted.dropped.push({ section, id, label, action: 'dropped' });
+  }
+}
+
+/**
+ * Keeps track of how much budget each section gets as sections are fitted in
+ * CONTEXT_SECTIONS order, and collects their reports
+ */
+export class ContextBudgetTracker {
+  private carriedTokens = 0;
+  private readonly sections = new Map<ContextSection, FittedSection>();
+
+  constructor(private readonly budget: ContextBudget) {}
+
+  /**
+   * Tokens available to `section`: its share plus whatever earlier sections left unused
+   */
+  available(section: ContextSection): number {
+    return Math.floor(this.budget.totalTokens * this.budget.shares[section]) + this.carriedTokens;
+  }
+
+  fit(section: ContextSection, blocks: ContextBlock[], contiguous = false): FittedSection {
+    const available = this.available(section);
+    const fitted = fitBlocks(section, blocks, available, contiguous);
+    this.carriedTokens = available - fitted.report.usedTokens;
+    this.sections.set(section, fitted);
+    return fitted;
+  }
+
+  report(): ContextReport {
+    const empty: ContextSectionReport = { budgetTokens: 0, usedTokens: 0, included: 0, truncated: 0, dropped: 0 };
+    const sections = Object.fromEntries(
+      CONTEXT_SECTIONS.map((section) => [section, this.sections.get(section)?.report ?? empty])
+    ) as Record<ContextSection, ContextSectionReport>;
+
+    return {
+      budgetTokens: this.budget.totalTokens,
+      usedTokens: CONTEXT_SECTIONS.reduce((sum, section) => sum + sections[section].usedTokens, 0),
+      sections,
+      dropped: CONTEXT_SECTIONS.flatMap((section) => this.sections.get(section)?.dropped ?? []),
+    };
+  }
+}
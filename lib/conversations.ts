@@ -0,0 +1,163 @@
+import type { ChatMessage, Conversation } from './types';
+
+const STORAGE_KEY = 'chat-conversations';
+// Single-conversation format used before threads existed
+const LEGACY_STORAGE_KEY = 'chat-messages';
+const STORAGE_VERSION = 1;
+
+const DEFAULT_TITLE = 'New conversation';
+const MAX_TITLE_LENGTH = 48;
+
+export interface ConversationState {
+  version: typeof STORAGE_VERSION;
+  activeId: string;
+  conversations: Conversation[];
+}
+
+function generateConversationId(): string {
+  return `conversation-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Title for a conversation that was never renamed: its first question, shortened
+ */
+export function getDefaultTitle(messages: ChatMessage[]): string {
+  const firstQuestion = messages.find((message) => message.role === 'user')?.content.trim();
+  if (!firstQuestion) {
+    return DEFAULT_TITLE;
+  }
+  return firstQuestion.length > MAX_TITLE_LENGTH
+    ? `${firstQuestion.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : firstQuestion;
+}
+
+export function createConversation(messages: ChatMessage[] = [], dungeonRaidName?: string): Conversation {
+  const now = new Date().toISOString();
+  return {
+    id: generateConversationId(),
+    title: getDefaultTitle(messages),
+    messages,
+    pinned: false,
+    dungeonRaidName,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Pinned conversations first, then most recently updated
+ */
+export function sortConversations(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort(
+    (a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt.localeCompare(a.updatedAt)
+  );
+}
+
+/**
+ * Conversations whose title or messages contain every word of the query
+ */
+export function searchConversations(conversations: Conversation[], query: string): Conversation[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return conversations;
+  }
+  return conversations.filter((conversation) => {
+    const text = [conversation.title, ...conversation.messages.map((message) => message.content)]
+      .join('\n')
+      .toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
+
+function reviveMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((message) => ({
+    ...message,
+    timestamp: message.timestamp ? new Date(message.timestamp) : undefined,
+  }));
+}
+
+function emptyState(): ConversationState {
+  const conversation = createConversation();
+  return { version: STORAGE_VERSION, activeId: conversation.id, conversations: [conversation] };
+}
+
+/**
+ * Load conversations from localStorage, migrating the legacy single-conversation
+ * 'chat-messages' key into a thread the first time. Always returns at least one
+ * conversation.
+ */
+export function loadConversations(): ConversationState {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as ConversationState;
+      if (parsed.version === STORAGE_VERSION && parsed.conversations.length > 0) {
+        const conversations = parsed.conversations.map((conversation) => ({
+          ...conversation,
+          messages: reviveMessages(conversation.messages),
+        }));
+        const activeId = conversations.some((conversation) => conversation.id === parsed.activeId)
+          ? parsed.activeId
+          : conversations[0].id;
+        return { version: STORAGE_VERSION, activeId, conversations };
+      }
+    }
+
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacy) {
+      const conversation = createConversation(reviveMessages(JSON.parse(legacy)));
+      const state: ConversationState = { version: STORAGE_VERSION, activeId: conversation.id, conversations: [conversation] };
+      saveConversations(state);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return state;
+    }
+  } catch (e) {
+    console.error('Failed to load conversations:', e);
+  }
+
+  return emptyState();
+}
+
+export function saveConversations(state: ConversationState): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (e) {
+    console.error('Failed to save conversations:', e);
+  }
+}
+
+/**
+ * Apply `update` to one conversation, bumping its updatedAt and keeping an
+ * auto-generated title in step with its first question
+ */
+export function updateConversation(
+  state: ConversationState,
+  conversationId: string,
+  update: (conversation: Conversation) => Partial<Conversation>
+): ConversationState {
+  return {
+    ...state,
+    conversations: state.conversations.map((conversation) => {
+      if (conversation.id !== conversationId) {
+        return conversation;
+      }
+      const updated = { ...conversation, ...update(conversation), updatedAt: new Date().toISOString() };
+      if (!updated.renamed) {
+        updated.title = getDefaultTitle(updated.messages);
+      }
+      return updated;
+    }),
+  };
+}
+
+/**
+ * Remove a conversation, switching to (or creating) another if it was active
+ */
+export function deleteConversation(state: ConversationState, conversationId: string): ConversationState {
+  const conversations = state.conversations.filter((conversation) => conversation.id !== conversationId);
+  if (conversations.length === 0) {
+    return emptyState();
+  }
+  const activeId = state.activeId === conversationId ? sortConversations(conversations)[0].id : state.activeId;
+  return { ...state, activeId, conversations };
+}
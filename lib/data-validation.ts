@@ -0,0 +1,192 @@
+import { DungeonRaidSchema, type DungeonRaid } from './types';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationRule =
+  | 'invalid-json'
+  | 'schema'
+  | 'duplicate-dungeon-id'
+  | 'duplicate-encounter-id'
+  | 'duplicate-mechanic-id'
+  | 'unresolved-related-mechanic'
+  | 'self-related-mechanic'
+  | 'missing-encounter-order'
+  | 'non-contiguous-encounter-order'
+  | 'contest-notes-without-flag'
+  | 'empty-solution'
+  | 'empty-tips'
+  | 'missing-role';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  rule: ValidationRule;
+  file: string;
+  path: string; // JSON path within the file, e.g. "encounters[1].mechanics[3].solution"
+  message: string;
+}
+
+export interface ValidationReport {
+  valid: boolean; // True when there are no errors (warnings are allowed)
+  files: number;
+  dungeonRaids: number;
+  encounters: number;
+  mechanics: number;
+  errorCount: number;
+  warningCount: number;
+  issues: ValidationIssue[];
+}
+
+export interface DataFile {
+  file: string;
+  content: string;
+}
+
+/**
+ * Format a zod issue path ("encounters", 1, "mechanics", 3) as "encounters[1].mechanics[3]"
+ */
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === 'number') return `${result}[${key}]`;
+    return result ? `${result}.${String(key)}` : String(key);
+  }, '');
+}
+
+/**
+ * Validate data/mechanics files against DungeonRaidSchema plus the semantic rules
+ * the schema can't express: ids unique across all files, relatedMechanics that resolve,
+ * contiguous encounter order, contest notes only on contest mechanics, and content gaps.
+ */
+export function validateDataFiles(dataFiles: DataFile[]): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  const parsed: Array<{ file: string; dungeonRaid: DungeonRaid }> = [];
+
+  const addIssue = (severity: ValidationSeverity, rule: ValidationRule, file: string, path: string, message: string) => {
+    issues.push({ severity, rule, file, path, message });
+  };
+
+  // Schema validation, per file
+  for (const { file, content } of dataFiles) {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      addIssue('error', 'invalid-json', file, '', error instanceof Error ? error.message : 'Invalid JSON');
+      continue;
+    }
+
+    const result = DungeonRaidSchema.safeParse(data);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        addIssue('error', 'schema', file, formatPath(issue.path), issue.message);
+      }
+      continue;
+    }
+    parsed.push({ file, dungeonRaid: result.data });
+  }
+
+  // Index ids across all files
+  const dungeonIds = new Map<string, string>();
+  const encounterIds = new Map<string, string>();
+  const mechanicIds = new Map<string, string>();
+  let encounterCount = 0;
+  let mechanicCount = 0;
+
+  for (const { file, dungeonRaid } of parsed) {
+    const firstDungeon = dungeonIds.get(dungeonRaid.id);
+    if (firstDungeon) {
+      addIssue('error', 'duplicate-dungeon-id', file, 'id', `Dungeon/raid id "${dungeonRaid.id}" is already used in ${firstDungeon}`);
+    } else {
+      dungeonIds.set(dungeonRaid.id, file);
+    }
+
+    dungeonRaid.encounters.forEach((encounter, encounterIndex) => {
+      encounterCount++;
+      const encounterPath = `encounters[${encounterIndex}]`;
+      const firstEncounter = encounterIds.get(encounter.id);
+      if (firstEncounter) {
+        addIssue('error', 'duplicate-encounter-id', file, `${encounterPath}.id`, `Encounter id "${encounter.id}" is already used in ${firstEncounter}`);
+      } else {
+        encounterIds.set(encounter.id, file);
+      }
+
+      encounter.mechanics.forEach((mechanic, mechanicIndex) => {
+        mechanicCount++;
+        const mechanicPath = `${encounterPath}.mechanics[${mechanicIndex}]`;
+        const firstMechanic = mechanicIds.get(mechanic.id);
+        if (firstMechanic) {
+          addIssue('error', 'duplicate-mechanic-id', file, `${mechanicPath}.id`, `Mechanic id "${mechanic.id}" is already used in ${firstMechanic}`);
+        } else {
+          mechanicIds.set(mechanic.id, file);
+        }
+      });
+    });
+  }
+
+  // Per-encounter and per-mechanic rules
+  for (const { file, dungeonRaid } of parsed) {
+    const orders: number[] = [];
+
+    dungeonRaid.encounters.forEach((encounter, encounterIndex) => {
+      const encounterPath = `encounters[${encounterIndex}]`;
+      if (encounter.order === undefined) {
+        addIssue('warning', 'missing-encounter-order', file, `${encounterPath}.order`, `Encounter "${encounter.name}" has no order`);
+      } else {
+        orders.push(encounter.order);
+      }
+
+      encounter.mechanics.forEach((mechanic, mechanicIndex) => {
+        const mechanicPath = `${encounterPath}.mechanics[${mechanicIndex}]`;
+
+        mechanic.relatedMechanics?.forEach((relatedId, relatedIndex) => {
+          const relatedPath = `${mechanicPath}.relatedMechanics[${relatedIndex}]`;
+          if (relatedId === mechanic.id) {
+            addIssue('warning', 'self-related-mechanic', file, relatedPath, `Mechanic "${mechanic.id}" lists itself as related`);
+          } else if (!mechanicIds.has(relatedId)) {
+            addIssue('error', 'unresolved-related-mechanic', file, relatedPath, `Related mechanic "${relatedId}" does not exist`);
+          }
+        });
+
+        if (mechanic.contestModeNotes && !mechanic.contestModeSpecific) {
+          addIssue('warning', 'contest-notes-without-flag', file, `${mechanicPath}.contestModeNotes`, `Mechanic "${mechanic.id}" has contestModeNotes but contestModeSpecific is not true`);
+        }
+
+        if (!mechanic.solution?.trim()) {
+          addIssue('warning', 'empty-solution', file, `${mechanicPath}.solution`, `Mechanic "${mechanic.id}" has no solution`);
+        }
+
+        if (!mechanic.tips || mechanic.tips.every(tip => !tip.trim())) {
+          addIssue('warning', 'empty-tips', file, `${mechanicPath}.tips`, `Mechanic "${mechanic.id}" has no tips`);
+        }
+
+        if (!mechanic.role) {
+          addIssue('warning', 'missing-role', file, `${mechanicPath}.role`, `Mechanic "${mechanic.id}" has no role (run npm run migrate:roles)`);
+        }
+      });
+    });
+
+    // Encounter order must run 1..n with no gaps or duplicates
+    const sortedOrders = [...orders].sort((a, b) => a - b);
+    const contiguous = sortedOrders.every((order, index) => order === index + 1);
+    if (!contiguous) {
+      addIssue(
+        'error',
+        'non-contiguous-encounter-order',
+        file,
+        'encounters',
+        `Encounter order values must be 1..${sortedOrders.length} without gaps or duplicates, found ${sortedOrders.join(', ')}`
+      );
+    }
+  }
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  return {
+    valid: errorCount === 0,
+    files: dataFiles.length,
+    dungeonRaids: parsed.length,
+    encounters: encounterCount,
+    mechanics: mechanicCount,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    issues,
+  };
+}
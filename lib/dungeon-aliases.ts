@@ -0,0 +1,182 @@
+import type { DungeonRaid } from './types';
+
+// Minimum confidence for a match to be used as a dungeon filter
+const MIN_CONFIDENCE = 0.7;
+
+// Confidence by how an alias was matched
+const EXACT_CONFIDENCE = 1.0;
+const ACRONYM_CONFIDENCE = 0.85;
+const FUZZY_CONFIDENCE_SCALE = 0.9;
+
+// Fuzzy matches must be at least this similar (1 - edit distance / length)
+const MIN_FUZZY_SIMILARITY = 0.75;
+// Single-word aliases shorter than this are too easy to hit by accident
+const MIN_FUZZY_SINGLE_WORD_LENGTH = 6;
+
+export interface DungeonAlias {
+  alias: string; // Normalized alias text
+  canonicalName: string;
+  kind: 'name' | 'alias' | 'acronym';
+}
+
+export interface DungeonMatch {
+  name: string; // Canonical dungeon/raid name
+  confidence: number; // 0-1
+  matchedAlias: string;
+  matchType: 'exact' | 'acronym' | 'fuzzy';
+}
+
+/**
+ * Lowercase, drop apostrophes and collapse everything else that isn't alphanumeric to single spaces
+ */
+export function normalizeDungeonText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Initials of a multi-word name ("Vesper's Host" -> "vh")
+ */
+function acronymOf(name: string): string | undefined {
+  const words = normalizeDungeonText(name).split(' ').filter(Boolean);
+  if (words.length < 2 || words.length > 4) {
+    return undefined;
+  }
+  return words.map((word) => word[0]).join('');
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ */
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j < cols; j++) {
+    d[0][j] = j;
+  }
+  
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * Build the alias index from loaded dungeon data: each dungeon's name, its
+ * `aliases` field, and an acronym generated from the name
+ */
+export function buildAliasIndex(dungeonRaids: DungeonRaid[]): DungeonAlias[] {
+  const index: DungeonAlias[] = [];
+  const seen = new Set<string>();
+  const add = (alias: string, canonicalName: string, kind: DungeonAlias['kind']) => {
+    const normalized = normalizeDungeonText(alias);
+    if (!normalized || seen.has(normalized)) {
+      return;
+    }
+    seen.add(normalized);
+    index.push({ alias: normalized, canonicalName, kind });
+  };
+  
+  // Names and explicit aliases first so they win over generated acronyms
+  for (const dungeonRaid of dungeonRaids) {
+    add(dungeonRaid.name, dungeonRaid.name, 'name');
+    for (const alias of dungeonRaid.aliases || []) {
+      add(alias, dungeonRaid.name, 'alias');
+    }
+  }
+  for (const dungeonRaid of dungeonRaids) {
+    const acronym = acronymOf(dungeonRaid.name);
+    if (acronym) {
+      add(acronym, dungeonRaid.name, 'acronym');
+    }
+  }
+  
+  return index;
+}
+
+/**
+ * Find the dungeon/raid a piece of text refers to.
+ * Tries exact alias matches, then acronyms, then typo-tolerant matching.
+ * Returns undefined if nothing matches with at least MIN_CONFIDENCE.
+ */
+export function resolveDungeonName(text: string, index: DungeonAlias[]): DungeonMatch | undefined {
+  const normalized = normalizeDungeonText(text);
+  if (!normalized) {
+    return undefined;
+  }
+  const tokens = normalized.split(' ');
+  const padded = ` ${normalized} `;
+  
+  let best: DungeonMatch | undefined;
+  const consider = (match: DungeonMatch) => {
+    if (
+      !best ||
+      match.confidence > best.confidence ||
+      (match.confidence === best.confidence && match.matchedAlias.length > best.matchedAlias.length)
+    ) {
+      best = match;
+    }
+  };
+  
+  for (const entry of index) {
+    // Exact, on word boundaries
+    if (padded.includes(` ${entry.alias} `)) {
+      const isShortForm = entry.kind === 'acronym' || entry.alias.length <= 3;
+      consider({
+        name: entry.canonicalName,
+        confidence: isShortForm ? ACRONYM_CONFIDENCE : EXACT_CONFIDENCE,
+        matchedAlias: entry.alias,
+        matchType: isShortForm ? 'acronym' : 'exact',
+      });
+      continue;
+    }
+    
+    if (entry.kind === 'acronym' || entry.alias.length <= 3) {
+      continue;
+    }
+    
+    // Fuzzy: compare against every window of the same number of words,
+    // with and without spaces so "vespershost" still matches "vespers host"
+    const aliasWords = entry.alias.split(' ');
+    if (aliasWords.length === 1 && entry.alias.length < MIN_FUZZY_SINGLE_WORD_LENGTH) {
+      continue;
+    }
+    const aliasCompact = aliasWords.join('');
+    for (const windowSize of new Set([aliasWords.length, 1])) {
+      for (let start = 0; start + windowSize <= tokens.length; start++) {
+        const window = tokens.slice(start, start + windowSize);
+        const candidate = windowSize === 1 ? window[0] : window.join(' ');
+        const target = windowSize === 1 ? aliasCompact : entry.alias;
+        // Typos rarely change the first letter, and requiring it avoids "quality" -> "duality"
+        if (candidate[0] !== target[0]) {
+          continue;
+        }
+        const similarity = 1 - editDistance(candidate, target) / Math.max(candidate.length, target.length);
+        if (similarity >= MIN_FUZZY_SIMILARITY) {
+          consider({
+            name: entry.canonicalName,
+            confidence: similarity * FUZZY_CONFIDENCE_SCALE,
+            matchedAlias: entry.alias,
+            matchType: 'fuzzy',
+          });
+        }
+      }
+    }
+  }
+  
+  return best && best.confidence >= MIN_CONFIDENCE ? best : undefined;
+}
@@ -1,36 +1,57 @@
-import OpenAI from 'openai';
 import { config } from 'dotenv';
 import { resolve } from 'path';
+import { OpenAIEmbeddingProvider } from './openai-embeddings';
+import { LocalEmbeddingProvider } from './local-embeddings';
 
 // Load environment variables from .env.local
 config({ path: resolve(process.cwd(), '.env.local') });
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const EMBEDDING_DIMENSION = 512; // Reduced to match Pinecone free tier limit
+const BATCH_SIZE = 100; // OpenAI allows up to 2048 inputs per request, but we'll batch smaller
 
-if (!OPENAI_API_KEY) {
-  throw new Error('OPENAI_API_KEY environment variable is not set');
+/**
+ * Source of text embeddings
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
 }
 
-const openai = new OpenAI({
-  apiKey: OPENAI_API_KEY,
-});
+export type EmbeddingProviderName = 'openai' | 'local';
 
-const EMBEDDING_MODEL = 'text-embedding-3-small';
-const EMBEDDING_DIMENSION = 512; // Reduced to match Pinecone free tier limit
-const BATCH_SIZE = 100; // OpenAI allows up to 2048 inputs per request, but we'll batch smaller
+let embeddingProvider: EmbeddingProvider | null = null;
+
+/**
+ * Provider selected by the EMBEDDING_PROVIDER environment variable (defaults to OpenAI)
+ */
+export function getEmbeddingProviderName(): EmbeddingProviderName {
+  const name = (process.env.EMBEDDING_PROVIDER || 'openai').toLowerCase();
+  if (name !== 'openai' && name !== 'local') {
+    throw new Error(`Unknown EMBEDDING_PROVIDER "${process.env.EMBEDDING_PROVIDER}" (expected "openai" or "local")`);
+  }
+  return name;
+}
+
+/**
+ * Get the configured embedding provider, creating it on first use
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    embeddingProvider = getEmbeddingProviderName() === 'local'
+      ? new LocalEmbeddingProvider(EMBEDDING_DIMENSION)
+      : new OpenAIEmbeddingProvider(EMBEDDING_DIMENSION);
+  }
+  return embeddingProvider;
+}
 
 /**
  * Generate embedding for a single text
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
   try {
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: text,
-      dimensions: EMBEDDING_DIMENSION,
-    });
-
-    return response.data[0].embedding;
+    const [embedding] = await getEmbeddingProvider().embed([text]);
+    return embedding;
   } catch (error) {
     console.error('Error generating embedding:', error);
     if (error instanceof Error) {
@@ -51,17 +72,13 @@ export async function generateEmbeddings(
   let processed = 0;
 
   try {
+    const provider = getEmbeddingProvider();
+
     // Process in batches
     for (let i = 0; i < texts.length; i += BATCH_SIZE) {
       const batch = texts.slice(i, i + BATCH_SIZE);
       
-      const response = await openai.embeddings.create({
-        model: EMBEDDING_MODEL,
-        input: batch,
-        dimensions: EMBEDDING_DIMENSION,
-      });
-
-      const batchEmbeddings = response.data.map((item) => item.embedding);
+      const batchEmbeddings = await provider.embed(batch);
       embeddings.push(...batchEmbeddings);
       
       processed += batch.length;
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { resolveEncounter } from './encounter-resolver';
+import { loadMechanicStore, resolveDungeon, resolveEncounterForQuery } from './rag';
+import type { DungeonRaid } from './types';
+
+function resolveWithDungeon(query: string): string | undefined {
+  return resolveEncounterForQuery(query, resolveDungeon(query)?.name)?.encounter.name;
+}
+
+function dungeonWithEncounter(id: string, encounterName: string): DungeonRaid {
+  return {
+    id,
+    name: id,
+    type: 'dungeon',
+    description: '',
+    encounters: [{ id: `${id}-encounter`, name: encounterName, description: '', type: 'boss', mechanics: [] }],
+  };
+}
+
+describe('resolveEncounter', () => {
+  before(async () => {
+    await loadMechanicStore();
+  });
+
+  it('prefers the encounter named specifically over a one-word encounter name', () => {
+    assert.equal(resolveWithDungeon('how does panel activation work on atraks in VH'), 'The Corrupted Puppeteer (Atraks)');
+    assert.equal(resolveWithDungeon('VH puppeteer panel activation'), 'The Corrupted Puppeteer (Atraks)');
+    assert.equal(resolveWithDungeon("vesper's host raneiks suppressor activation"), 'Raneiks Unified');
+  });
+
+  it('still resolves a one-word encounter name on its own', () => {
+    assert.equal(resolveWithDungeon('how does activation work in VH'), 'Activation');
+    assert.equal(resolveEncounterForQuery('the vault', 'Duality')?.encounter.name, 'The Vault');
+  });
+
+  it('matches nothing when encounters in different dungeons share the name', () => {
+    const dungeonRaids = [dungeonWithEncounter('first', 'Shared Name'), dungeonWithEncounter('second', 'Shared Name')];
+    assert.equal(resolveEncounter('tips for shared name', dungeonRaids, false), undefined);
+    assert.equal(resolveEncounter('tips for shared name', dungeonRaids.slice(0, 1), false)?.encounter.name, 'Shared Name');
+  });
+});
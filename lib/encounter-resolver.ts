@@ -0,0 +1,287 @@
+import type { DungeonRaid, Encounter } from './types';
+import { normalizeDungeonText } from './dungeon-aliases';
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5,
+  sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+};
+
+// "Encounter" counts every encounter in order; the rest count encounters of that type
+const UNIT_WORDS = ['encounter', 'boss', 'traversal', 'opening', 'secret'] as const;
+type EncounterUnit = (typeof UNIT_WORDS)[number];
+
+// Words that say nothing about which encounter is meant
+const GENERIC_NAME_WORDS = new Set([
+  'the', 'of', 'to', 'and', 'a', 'an', 'encounter', 'boss', 'opening', 'traversal', 'secret',
+  'first', 'second', 'third', 'final', 'last', 'navigation', 'general', 'information', 'tips', 'day',
+]);
+
+const ORDINAL = `\\d+(?:st|nd|rd|th)|${Object.keys(ORDINAL_WORDS).join('|')}`;
+const UNIT = UNIT_WORDS.join('|');
+const FROM_LAST = 'penultimate|second to last|second last|next to last';
+
+export interface EncounterMatch {
+  encounter: Encounter;
+  order: number; // Position in the dungeon (encounter.order, or file order if unset)
+  dungeonRaidId: string;
+  dungeonRaidName: string;
+  method: 'ordinal' | 'name' | 'type' | 'relative';
+  matchedText: string;
+}
+
+interface OrderedEncounter {
+  encounter: Encounter;
+  order: number;
+}
+
+function orderedEncounters(dungeonRaid: DungeonRaid): OrderedEncounter[] {
+  return dungeonRaid.encounters
+    .map((encounter, index) => ({ encounter, order: encounter.order ?? index + 1 }))
+    .sort((a, b) => a.order - b.order);
+}
+
+function ofUnit(encounters: OrderedEncounter[], unit: EncounterUnit): OrderedEncounter[] {
+  return unit === 'encounter' ? encounters : encounters.filter(({ encounter }) => encounter.type === unit);
+}
+
+function parseOrdinal(text: string): number | undefined {
+  if (ORDINAL_WORDS[text] !== undefined) {
+    return ORDINAL_WORDS[text];
+  }
+  const numeric = parseInt(text, 10);
+  return Number.isNaN(numeric) ? undefined : numeric;
+}
+
+interface NameVariant {
+  text: string;
+  strength: number;
+  partial: boolean; // A single word taken from a longer name
+}
+
+/**
+ * Name variants an encounter can be referred to by, strongest first: the full name,
+ * the part before a comma ("Kerrev" from "Kerrev, The Erased"), a parenthetical
+ * ("Atraks"), and - only when the dungeon is known - the first or last word ("Raneiks",
+ * "Puppeteer") and one-word full names ("Activation"). One-word names are common words,
+ * so they rank below anything more specific that the query also names.
+ */
+function nameVariants(encounter: Encounter, dungeonKnown: boolean): NameVariant[] {
+  const variants: NameVariant[] = [];
+  const strip = (text: string) => normalizeDungeonText(text).replace(/^the /, '');
+  const isDistinctive = (text: string) => {
+    const words = text.split(' ').filter((word) => !GENERIC_NAME_WORDS.has(word));
+    return words.length > 0 && text.length >= 4;
+  };
+  
+  const withoutParenthetical = encounter.name.replace(/\(.*?\)/g, '');
+  const full = strip(withoutParenthetical);
+  // Single common words ("Activation", "The Vault") only identify an encounter within a known dungeon
+  if (isDistinctive(full) && (dungeonKnown || full.includes(' '))) {
+    variants.push({ text: full, strength: full.includes(' ') ? 3 : 0, partial: false });
+  }
+  
+  const head = strip(withoutParenthetical.split(/[,:-]/)[0]);
+  if (head !== full && isDistinctive(head) && head.length >= 5) {
+    variants.push({ text: head, strength: 2, partial: false });
+  }
+  
+  for (const [, inner] of encounter.name.matchAll(/\((.*?)\)/g)) {
+    const text = strip(inner);
+    if (isDistinctive(text)) {
+      variants.push({ text, strength: 2, partial: false });
+    }
+  }
+  
+  if (dungeonKnown) {
+    const words = full.split(' ');
+    for (const word of new Set([words[0], words[words.length - 1]])) {
+      if (word !== full && word.length >= 5 && !GENERIC_NAME_WORDS.has(word)) {
+        variants.push({ text: word, strength: 1, partial: true });
+      }
+    }
+  }
+  
+  return variants;
+}
+
+/**
+ * Lexicographic comparison of two equal-length rank tuples
+ */
+function compareRanks(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return 0;
+}
+
+/**
+ * Find an encounter named in the query. Prefers stronger and longer matches, then bosses.
+ * Returns undefined when the best match is shared by more than one encounter.
+ */
+function matchByName(
+  normalizedQuery: string,
+  dungeonRaids: DungeonRaid[],
+  dungeonKnown: boolean
+): { dungeonRaid: DungeonRaid; entry: OrderedEncounter; matchedText: string } | undefined {
+  const padded = ` ${normalizedQuery} `;
+  const matches: Array<{ dungeonRaid: DungeonRaid; entry: OrderedEncounter; variant: NameVariant }> = [];
+  
+  for (const dungeonRaid of dungeonRaids) {
+    for (const entry of orderedEncounters(dungeonRaid)) {
+      for (const variant of nameVariants(entry.encounter, dungeonKnown)) {
+        if (padded.includes(` ${variant.text} `)) {
+          matches.push({ dungeonRaid, entry, variant });
+        }
+      }
+    }
+  }
+  
+  // A word that is one encounter's whole name ("The Vault") refers to that encounter,
+  // not to another one that merely starts with it ("Vault Traversal")
+  const wholeNames = new Set(matches.filter(({ variant }) => !variant.partial).map(({ variant }) => variant.text));
+  const ranked = matches
+    .filter(({ variant }) => !variant.partial || !wholeNames.has(variant.text))
+    .map((match) => ({
+      ...match,
+      rank: [match.variant.strength, match.variant.text.length, match.entry.encounter.type === 'boss' ? 1 : 0],
+    }))
+    .sort((a, b) => compareRanks(b.rank, a.rank));
+  
+  const [best] = ranked;
+  if (!best) {
+    return undefined;
+  }
+  // The same name in two dungeons, or two encounters matched equally well
+  const ambiguous = ranked.some(
+    (match) =>
+      match.entry.encounter !== best.entry.encounter &&
+      match.variant.strength === best.variant.strength &&
+      (match.variant.text === best.variant.text || compareRanks(match.rank, best.rank) === 0)
+  );
+  return ambiguous ? undefined : { dungeonRaid: best.dungeonRaid, entry: best.entry, matchedText: best.variant.text };
+}
+
+/**
+ * Resolve a reference like "the traversal" or "Zoetic Lockset" to an encounter within one dungeon
+ */
+function resolveAnchor(text: string, dungeonRaid: DungeonRaid): OrderedEncounter | undefined {
+  const unit = UNIT_WORDS.find((word) => new RegExp(`^(?:the )?${word}\\b`).test(text));
+  if (unit && unit !== 'encounter') {
+    return ofUnit(orderedEncounters(dungeonRaid), unit)[0];
+  }
+  return matchByName(text, [dungeonRaid], true)?.entry;
+}
+
+function toMatch(
+  dungeonRaid: DungeonRaid,
+  entry: OrderedEncounter | undefined,
+  method: EncounterMatch['method'],
+  matchedText: string
+): EncounterMatch | undefined {
+  if (!entry) {
+    return undefined;
+  }
+  return {
+    encounter: entry.encounter,
+    order: entry.order,
+    dungeonRaidId: dungeonRaid.id,
+    dungeonRaidName: dungeonRaid.name,
+    method,
+    matchedText,
+  };
+}
+
+/**
+ * Resolve which encounter a query is about.
+ *
+ * With a single known dungeon this understands ordinals ("4th encounter", "encounter 5",
+ * "second boss", "final boss", "penultimate boss"), relative references ("the boss after
+ * the traversal"), encounter names, and encounter types that occur once ("the traversal").
+ * Without a known dungeon only encounter names are matched, across all dungeons, and a name
+ * shared by encounters in more than one dungeon matches none of them.
+ */
+export function resolveEncounter(
+  query: string,
+  dungeonRaids: DungeonRaid[],
+  dungeonKnown: boolean
+): EncounterMatch | undefined {
+  const text = normalizeDungeonText(query);
+  if (!text) {
+    return undefined;
+  }
+  
+  if (dungeonKnown && dungeonRaids.length === 1) {
+    const dungeonRaid = dungeonRaids[0];
+    const encounters = orderedEncounters(dungeonRaid);
+    
+    // "the boss after the traversal", "encounter before zoetic lockset"
+    const relative = text.match(new RegExp(`\\b(${UNIT})\\s+(after|following|before|preceding)\\s+(.+)$`));
+    if (relative) {
+      const [matchedText, unit, direction, anchorText] = relative;
+      const anchor = resolveAnchor(anchorText, dungeonRaid);
+      if (anchor) {
+        const candidates = ofUnit(encounters, unit as EncounterUnit);
+        const entry = direction === 'after' || direction === 'following'
+          ? candidates.find(({ order }) => order > anchor.order)
+          : [...candidates].reverse().find(({ order }) => order < anchor.order);
+        const match = toMatch(dungeonRaid, entry, 'relative', matchedText);
+        if (match) {
+          return match;
+        }
+      }
+    }
+    
+    // "penultimate boss", "second to last encounter"
+    const fromLast = text.match(new RegExp(`\\b(${FROM_LAST})\\s+(${UNIT})\\b`));
+    if (fromLast) {
+      const candidates = ofUnit(encounters, fromLast[2] as EncounterUnit);
+      return toMatch(dungeonRaid, candidates[candidates.length - 2], 'ordinal', fromLast[0]);
+    }
+    
+    // "final boss", "last encounter"
+    const last = text.match(new RegExp(`\\b(final|last)\\s+(${UNIT})\\b`));
+    if (last) {
+      const candidates = ofUnit(encounters, last[2] as EncounterUnit);
+      return toMatch(dungeonRaid, candidates[candidates.length - 1], 'ordinal', last[0]);
+    }
+    
+    // "4th encounter", "second boss"
+    const ordinal = text.match(new RegExp(`\\b(${ORDINAL})\\s+(${UNIT})\\b`));
+    if (ordinal) {
+      const position = parseOrdinal(ordinal[1]);
+      if (position !== undefined) {
+        return toMatch(dungeonRaid, ofUnit(encounters, ordinal[2] as EncounterUnit)[position - 1], 'ordinal', ordinal[0]);
+      }
+    }
+    
+    // "encounter 5", "boss #2"
+    const numbered = text.match(new RegExp(`\\b(${UNIT})\\s+(?:number\\s+)?(\\d+)\\b`));
+    if (numbered) {
+      const candidates = ofUnit(encounters, numbered[1] as EncounterUnit);
+      return toMatch(dungeonRaid, candidates[parseInt(numbered[2], 10) - 1], 'ordinal', numbered[0]);
+    }
+  }
+  
+  const named = matchByName(text, dungeonRaids, dungeonKnown);
+  if (named) {
+    return toMatch(named.dungeonRaid, named.entry, 'name', named.matchedText);
+  }
+  
+  // "the traversal" when the dungeon has exactly one
+  if (dungeonKnown && dungeonRaids.length === 1) {
+    const dungeonRaid = dungeonRaids[0];
+    for (const unit of UNIT_WORDS) {
+      if (unit === 'encounter' || !new RegExp(`\\b${unit}\\b`).test(text)) {
+        continue;
+      }
+      const candidates = ofUnit(orderedEncounters(dungeonRaid), unit);
+      if (candidates.length === 1) {
+        return toMatch(dungeonRaid, candidates[0], 'type', unit);
+      }
+    }
+  }
+  
+  return undefined;
+}
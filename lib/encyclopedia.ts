@@ -0,0 +1,48 @@
+import { getLoadedDungeonRaids, getStoredMechanic } from './rag';
+import type { DungeonRaid, Encounter } from './types';
+
+/**
+ * Path of a dungeon's page, or of one of its encounters
+ */
+export function getDungeonPath(dungeonRaidId: string, encounterId?: string): string {
+  return encounterId ? `/dungeons/${dungeonRaidId}/${encounterId}` : `/dungeons/${dungeonRaidId}`;
+}
+
+/**
+ * Link to a mechanic's anchor on its encounter page, or undefined if the id isn't
+ * a loaded mechanic. Call loadMechanicStore() first.
+ */
+export function getMechanicPath(mechanicId: string): string | undefined {
+  const stored = getStoredMechanic(mechanicId);
+  if (!stored) {
+    return undefined;
+  }
+  return `${getDungeonPath(stored.dungeonRaid.id, stored.encounter.id)}#${mechanicId}`;
+}
+
+/**
+ * Name and link of a related mechanic, or undefined if it isn't loaded. Call loadMechanicStore() first.
+ */
+export function getRelatedMechanicLink(mechanicId: string): { name: string; href: string } | undefined {
+  const stored = getStoredMechanic(mechanicId);
+  const href = getMechanicPath(mechanicId);
+  return stored && href ? { name: stored.mechanic.name, href } : undefined;
+}
+
+/**
+ * Loaded dungeons/raids sorted by name. Call loadMechanicStore() first.
+ */
+export function getEncyclopediaDungeonRaids(): DungeonRaid[] {
+  return getLoadedDungeonRaids().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getDungeonRaidById(dungeonRaidId: string): DungeonRaid | undefined {
+  return getLoadedDungeonRaids().find((dungeonRaid) => dungeonRaid.id === dungeonRaidId);
+}
+
+/**
+ * A dungeon's encounters in timeline order, unordered encounters last
+ */
+export function getOrderedEncounters(dungeonRaid: DungeonRaid): Encounter[] {
+  return [...dungeonRaid.encounters].sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity));
+}
@@ -0,0 +1,206 @@
+import { createHash, randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rename, stat, unlink, utimes, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import type { Cache, CacheLimits, CacheStats } from './cache';
+
+const FILE_CACHE_VERSION = 1;
+
+interface FileCacheEntry {
+  version: number;
+  key: string;
+  expiresAt: number;
+  value: unknown;
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Cache that stores each entry as a JSON file in a directory, so cached values survive
+ * restarts and are shared by every server instance using the same directory.
+ * A file's modification time records when it was last used; limits and expiry are
+ * enforced by the periodic sweep, so the directory can briefly exceed the limits.
+ */
+export class FileCache implements Cache {
+  readonly name = 'file';
+  // Counts for this process only - other instances keep their own
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expired = 0;
+
+  /**
+   * @param directory Directory to keep entry files in, created on first write
+   */
+  constructor(
+    private readonly directory: string,
+    private readonly limits: CacheLimits
+  ) {
+    if (limits.sweepIntervalMs > 0) {
+      // Don't keep the process alive just to sweep
+      setInterval(() => {
+        this.sweep().catch((error) => console.error('Error sweeping file cache:', error));
+      }, limits.sweepIntervalMs).unref?.();
+    }
+  }
+
+  private getFilePath(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private async removeFile(filePath: string): Promise<void> {
+    try {
+      await unlink(filePath);
+    } catch (error) {
+      // Another instance may have removed it first
+      if (!isMissingFile(error)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Entry files with their size and last use, least recently used first
+   */
+  private async listFiles(): Promise<Array<{ filePath: string; bytes: number; usedAt: number }>> {
+    let names: string[];
+    try {
+      names = await readdir(this.directory);
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const files: Array<{ filePath: string; bytes: number; usedAt: number }> = [];
+    for (const name of names.filter((fileName) => fileName.endsWith('.json'))) {
+      const filePath = join(this.directory, name);
+      try {
+        const info = await stat(filePath);
+        files.push({ filePath, bytes: info.size, usedAt: info.mtimeMs });
+      } catch (error) {
+        if (!isMissingFile(error)) {
+          throw error;
+        }
+      }
+    }
+    return files.sort((a, b) => a.usedAt - b.usedAt);
+  }
+
+  private async readEntry(filePath: string): Promise<FileCacheEntry | null> {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf-8')) as FileCacheEntry;
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return null;
+      }
+      // A corrupt or foreign file is treated as a miss and replaced on the next set
+      console.warn(`Ignoring unreadable cache file ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove expired entries, then the least recently used ones until the cache is
+   * within maxEntries and maxBytes
+   */
+  async sweep(now: number = Date.now()): Promise<void> {
+    const files = await this.listFiles();
+    const kept: typeof files = [];
+
+    for (const file of files) {
+      const entry = await this.readEntry(file.filePath);
+      if (!entry || entry.version !== FILE_CACHE_VERSION || entry.expiresAt <= now) {
+        await this.removeFile(file.filePath);
+        this.expired++;
+      } else {
+        kept.push(file);
+      }
+    }
+
+    let bytes = kept.reduce((sum, file) => sum + file.bytes, 0);
+    let count = kept.length;
+    for (const file of kept) {
+      const overEntries = this.limits.maxEntries > 0 && count > this.limits.maxEntries;
+      const overBytes = this.limits.maxBytes > 0 && bytes > this.limits.maxBytes;
+      if (!overEntries && !overBytes) {
+        break;
+      }
+      await this.removeFile(file.filePath);
+      bytes -= file.bytes;
+      count--;
+      this.evictions++;
+    }
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const filePath = this.getFilePath(key);
+    const entry = await this.readEntry(filePath);
+
+    if (!entry || entry.version !== FILE_CACHE_VERSION || entry.key !== key) {
+      this.misses++;
+      return null;
+    }
+
+    const now = Date.now();
+    if (entry.expiresAt <= now) {
+      await this.removeFile(filePath);
+      this.expired++;
+      this.misses++;
+      return null;
+    }
+
+    // Record the use so the sweep evicts least recently used entries first
+    await utimes(filePath, new Date(now), new Date(now)).catch(() => undefined);
+    this.hits++;
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const entry: FileCacheEntry = { version: FILE_CACHE_VERSION, key, expiresAt: Date.now() + ttlMs, value };
+    const json = JSON.stringify(entry);
+    // A value larger than the whole cache would only evict everything else
+    if (this.limits.maxBytes > 0 && Buffer.byteLength(json) > this.limits.maxBytes) {
+      return;
+    }
+
+    // Write then rename so readers never see a partially written file
+    const filePath = this.getFilePath(key);
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(tempPath, json);
+    await rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.removeFile(this.getFilePath(key));
+  }
+
+  async clear(): Promise<void> {
+    for (const file of await this.listFiles()) {
+      await this.removeFile(file.filePath);
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    const files = await this.listFiles();
+    return {
+      backend: this.name,
+      entries: files.length,
+      bytes: files.reduce((sum, file) => sum + file.bytes, 0),
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expired: this.expired,
+    };
+  }
+}
+
+/**
+ * Resolve the file cache directory from CACHE_DIR (defaults to .data/cache)
+ */
+export function getFileCacheDir(): string {
+  return resolve(process.cwd(), process.env.CACHE_DIR || '.data/cache');
+}
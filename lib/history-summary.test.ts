@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { summarizeHistory } from './history-summary';
+import type { ChatModelMessage } from './llm';
+
+function conversation(length: number): ChatModelMessage[] {
+  return Array.from({ length }, (_, index) => ({
+    role: index % 2 === 0 ? 'user' : 'assistant',
+    content: `message ${index + 1}`,
+  }));
+}
+
+describe('summarizeHistory', () => {
+  before(() => {
+    process.env.LLM_PROVIDER = 'mock';
+  });
+
+  it('folds all but the recent messages into the summary', async () => {
+    const summarized = await summarizeHistory(undefined, conversation(14), { recentMessages: 6, summarizeAfter: 12 });
+    assert.equal(summarized.updated, true);
+    assert.equal(summarized.summary?.messageCount, 8);
+    assert.deepEqual(summarized.recent, conversation(14).slice(8));
+  });
+
+  it('always keeps the last question and answer', async () => {
+    const summarized = await summarizeHistory(undefined, conversation(14), { recentMessages: 1, summarizeAfter: 12 });
+    assert.deepEqual(summarized.recent, conversation(14).slice(12));
+    assert.equal(summarized.summary?.messageCount, 12);
+  });
+
+  it('stops when the request is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(
+      summarizeHistory(undefined, conversation(14), { recentMessages: 6, summarizeAfter: 12, signal: controller.signal }),
+      { name: 'AbortError' }
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { getChatModelOptions, getChatModelProvider, type ChatModelMessage } from './llm';
+import { buildSummaryPrompt } from './prompts';
+import type { ConversationSummary } from './types';
+
+// Messages always sent as they are, after the summary
+const DEFAULT_RECENT_MESSAGES = 6;
+// Older messages are folded into the summary once this many haven't been, so the model
+// isn't asked for a new summary on every turn
+const DEFAULT_SUMMARIZE_AFTER = 12;
+
+const SUMMARY_MAX_TOKENS = 600;
+
+export interface HistorySummaryOptions {
+  recentMessages?: number; // Defaults to HISTORY_RECENT_MESSAGES or 6
+  summarizeAfter?: number; // Defaults to HISTORY_SUMMARIZE_AFTER or 12
+  signal?: AbortSignal; // Aborting cancels the summary request
+}
+
+export interface SummarizedHistory {
+  summary?: ConversationSummary;
+  recent: ChatModelMessage[]; // Messages after the summary, to send in full
+  updated: boolean; // The summary was extended with older messages on this call
+}
+
+function parseCount(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * The previous summary and the messages to add to it, as one user message
+ */
+function formatSummaryRequest(previous: ConversationSummary | undefined, messages: ChatModelMessage[]): string {
+  const transcript = messages
+    .map((message) => `${message.role === 'user' ? 'Team' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+  return [
+    `Current summary:\n${previous?.text || '(none yet)'}`,
+    `Messages to add to it:\n${transcript}`,
+  ].join('\n\n');
+}
+
+/**
+ * Keep a running summary of a conversation's older messages. `messages` are the ones
+ * after `previous` (all of them if there is no summary yet). Once more than
+ * `summarizeAfter` messages aren't summarized, all but the most recent `recentMessages`
+ * are folded into the summary with the configured chat model.
+ */
+export async function summarizeHistory(
+  previous: ConversationSummary | undefined,
+  messages: ChatModelMessage[],
+  options: HistorySummaryOptions = {}
+): Promise<SummarizedHistory> {
+  const recentMessages = options.recentMessages ?? parseCount(process.env.HISTORY_RECENT_MESSAGES, DEFAULT_RECENT_MESSAGES);
+  const summarizeAfter = options.summarizeAfter ?? parseCount(process.env.HISTORY_SUMMARIZE_AFTER, DEFAULT_SUMMARIZE_AFTER);
+
+  if (messages.length <= Math.max(summarizeAfter, recentMessages)) {
+    return { summary: previous, recent: messages, updated: false };
+  }
+
+  // Start the recent messages on a question so the model sees a normal conversation,
+  // and always keep at least the last question and answer as they are
+  let split = messages.length - recentMessages;
+  while (split < messages.length && messages[split].role !== 'user') {
+    split++;
+  }
+  if (split === messages.length) {
+    split = messages.map((message) => message.role).lastIndexOf('user');
+  }
+  if (split <= 0) {
+    return { summary: previous, recent: messages, updated: false };
+  }
+  const older = messages.slice(0, split);
+  const recent = messages.slice(split);
+
+  const text = await getChatModelProvider().generate(
+    {
+      ...getChatModelOptions({ maxTokens: SUMMARY_MAX_TOKENS }),
+      system: buildSummaryPrompt(),
+      messages: [{ role: 'user', content: formatSummaryRequest(previous, older) }],
+    },
+    { signal: options.signal }
+  );
+
+  return {
+    summary: {
+      text: text.trim(),
+      messageCount: (previous?.messageCount ?? 0) + older.length,
+      updatedAt: new Date().toISOString(),
+    },
+    recent,
+    updated: true,
+  };
+}
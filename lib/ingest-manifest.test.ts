@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { before, describe, it } from 'node:test';
+import { loadIngestManifest, saveIngestManifest } from './ingest-manifest';
+import { getVectorStoreTarget } from './vector-store';
+
+describe('ingest manifest', () => {
+  before(() => {
+    process.env.INGEST_MANIFEST_PATH = join(mkdtempSync(join(tmpdir(), 'ingest-manifest-')), 'manifest.json');
+    process.env.VECTOR_STORE = 'local';
+  });
+
+  it('tells local store files apart', () => {
+    process.env.LOCAL_VECTOR_STORE_PATH = '.data/first.json';
+    const first = getVectorStoreTarget();
+    process.env.LOCAL_VECTOR_STORE_PATH = '.data/second.json';
+    assert.notEqual(getVectorStoreTarget(), first);
+  });
+
+  it('treats the manifest of another target as empty', () => {
+    const manifest = loadIngestManifest('local:/data/first.json', 'local');
+    manifest.mechanics['mechanic-1'] = { hash: 'abc', file: 'data/mechanics/test.json' };
+    saveIngestManifest(manifest);
+
+    assert.deepEqual(Object.keys(loadIngestManifest('local:/data/first.json', 'local').mechanics), ['mechanic-1']);
+    assert.deepEqual(loadIngestManifest('local:/data/second.json', 'local').mechanics, {});
+  });
+});
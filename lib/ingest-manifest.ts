@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+const INGEST_MANIFEST_VERSION = 1;
+
+export interface ManifestEntry {
+  hash: string;
+  file: string; // Data file the mechanic came from, relative to the project root
+  vectorIds?: string[]; // Chunk vector ids; absent for entries whose single vector id is the mechanic id
+}
+
+/**
+ * What has been embedded into which vector store, keyed by mechanic id.
+ * Vectors embedded into a different index or file, or by a different embedding provider,
+ * are not reusable, so a manifest for another target is treated as empty.
+ */
+export interface IngestManifest {
+  version: number;
+  vectorStore: string; // Backend and index or file, e.g. "pinecone:destiny-mechanics" (see getVectorStoreTarget)
+  embeddingProvider: string;
+  mechanics: Record<string, ManifestEntry>;
+}
+
+export interface IngestItem {
+  id: string;
+  hash: string;
+  file: string;
+}
+
+export interface IngestDiff<T extends IngestItem = IngestItem> {
+  added: T[];
+  changed: T[];
+  removed: string[];
+  unchanged: T[];
+}
+
+/**
+ * Path of the ingest manifest (INGEST_MANIFEST_PATH, default .data/ingest-manifest.json)
+ */
+export function getIngestManifestPath(): string {
+  return resolve(process.cwd(), process.env.INGEST_MANIFEST_PATH || '.data/ingest-manifest.json');
+}
+
+/**
+ * Hash everything that ends up in a mechanic's vectors: the embedded text and its metadata
+ */
+export function hashMechanicContent(text: string, metadata: object): string {
+  return createHash('sha256')
+    .update(text)
+    .update('\0')
+    .update(JSON.stringify(metadata))
+    .digest('hex');
+}
+
+/**
+ * Load the manifest for a vector store target/embedding provider pair (empty if missing or for another target)
+ */
+export function loadIngestManifest(vectorStore: string, embeddingProvider: string): IngestManifest {
+  const empty: IngestManifest = { version: INGEST_MANIFEST_VERSION, vectorStore, embeddingProvider, mechanics: {} };
+  const filePath = getIngestManifestPath();
+  if (!existsSync(filePath)) {
+    return empty;
+  }
+
+  try {
+    const manifest = JSON.parse(readFileSync(filePath, 'utf-8')) as IngestManifest;
+    if (
+      manifest.version !== INGEST_MANIFEST_VERSION ||
+      manifest.vectorStore !== vectorStore ||
+      manifest.embeddingProvider !== embeddingProvider
+    ) {
+      console.warn(`Ignoring ingest manifest at ${filePath}: it was written for another version, vector store target or embedding provider`);
+      return empty;
+    }
+    return manifest;
+  } catch (error) {
+    console.error('Error loading ingest manifest:', error);
+    throw new Error('Failed to load ingest manifest');
+  }
+}
+
+export function saveIngestManifest(manifest: IngestManifest): void {
+  const filePath = getIngestManifestPath();
+  try {
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify(manifest, null, 2));
+  } catch (error) {
+    console.error('Error saving ingest manifest:', error);
+    throw new Error('Failed to save ingest manifest');
+  }
+}
+
+/**
+ * Vector ids recorded for a mechanic
+ */
+export function getManifestVectorIds(manifest: IngestManifest, mechanicId: string): string[] {
+  const entry = manifest.mechanics[mechanicId];
+  if (!entry) {
+    return [];
+  }
+  return entry.vectorIds ?? [mechanicId];
+}
+
+/**
+ * Delete the manifest, e.g. after wiping the vector store
+ */
+export function clearIngestManifest(): void {
+  rmSync(getIngestManifestPath(), { force: true });
+}
+
+/**
+ * Compare the current mechanics against the manifest. When `files` is given, only
+ * mechanics from those files can be reported as removed, so ingesting a single file
+ * leaves the rest alone; otherwise anything missing (including deleted files) is removed.
+ */
+export function diffIngestManifest<T extends IngestItem>(
+  manifest: IngestManifest,
+  items: T[],
+  files?: string[],
+  force = false
+): IngestDiff<T> {
+  const diff: IngestDiff<T> = { added: [], changed: [], removed: [], unchanged: [] };
+  const currentIds = new Set(items.map(item => item.id));
+
+  for (const item of items) {
+    const entry = manifest.mechanics[item.id];
+    if (!entry) {
+      diff.added.push(item);
+    } else if (force || entry.hash !== item.hash) {
+      diff.changed.push(item);
+    } else {
+      diff.unchanged.push(item);
+    }
+  }
+
+  const ingestedFiles = files ? new Set(files) : null;
+  for (const [id, entry] of Object.entries(manifest.mechanics)) {
+    if (!currentIds.has(id) && (!ingestedFiles || ingestedFiles.has(entry.file))) {
+      diff.removed.push(id);
+    }
+  }
+
+  return diff;
+}
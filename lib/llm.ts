@@ -0,0 +1,113 @@
+import { AnthropicChatModel } from './anthropic-llm';
+import { OpenAICompatibleChatModel } from './openai-compatible-llm';
+import { MockChatModel } from './mock-llm';
+
+export interface ChatModelMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatModelOptions {
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+}
+
+export interface ChatModelRequest extends ChatModelOptions {
+  system: string;
+  messages: ChatModelMessage[];
+}
+
+export interface ChatModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatModelGenerateOptions {
+  signal?: AbortSignal; // Aborting cancels the upstream request
+}
+
+export interface ChatModelStreamOptions extends ChatModelGenerateOptions {
+  onUsage?: (usage: ChatModelUsage) => void; // Called once the model reports token counts
+}
+
+/**
+ * Chat model used to answer questions from the RAG context
+ */
+export interface ChatModelProvider {
+  readonly name: string;
+  generate(request: ChatModelRequest, options?: ChatModelGenerateOptions): Promise<string>;
+  stream(request: ChatModelRequest, options?: ChatModelStreamOptions): AsyncGenerator<string, void, unknown>;
+}
+
+export type ChatModelProviderName = 'anthropic' | 'openai-compatible' | 'mock';
+
+const DEFAULT_MODELS: Record<ChatModelProviderName, string | undefined> = {
+  anthropic: 'claude-sonnet-4-5-20250929',
+  'openai-compatible': undefined, // Depends on what the server has loaded
+  mock: 'mock',
+};
+
+const DEFAULT_MAX_TOKENS = 2048;
+
+let chatModelProvider: ChatModelProvider | null = null;
+
+/**
+ * Provider selected by the LLM_PROVIDER environment variable (defaults to Anthropic)
+ */
+export function getChatModelProviderName(): ChatModelProviderName {
+  const name = (process.env.LLM_PROVIDER || 'anthropic').toLowerCase();
+  if (name !== 'anthropic' && name !== 'openai-compatible' && name !== 'mock') {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${process.env.LLM_PROVIDER}" (expected "anthropic", "openai-compatible" or "mock")`
+    );
+  }
+  return name;
+}
+
+/**
+ * Get the configured chat model provider, creating it on first use
+ */
+export function getChatModelProvider(): ChatModelProvider {
+  if (!chatModelProvider) {
+    switch (getChatModelProviderName()) {
+      case 'openai-compatible':
+        chatModelProvider = new OpenAICompatibleChatModel();
+        break;
+      case 'mock':
+        chatModelProvider = new MockChatModel(process.env.MOCK_LLM_SCRIPT);
+        break;
+      default:
+        chatModelProvider = new AnthropicChatModel();
+    }
+  }
+  return chatModelProvider;
+}
+
+function parseNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Model settings from LLM_MODEL, LLM_MAX_TOKENS and LLM_TEMPERATURE,
+ * with per-call overrides taking precedence
+ */
+export function getChatModelOptions(overrides: Partial<ChatModelOptions> = {}): ChatModelOptions {
+  const model = overrides.model ?? process.env.LLM_MODEL ?? DEFAULT_MODELS[getChatModelProviderName()];
+  if (!model) {
+    throw new Error('LLM_MODEL environment variable is not set');
+  }
+
+  return {
+    model,
+    maxTokens: overrides.maxTokens ?? parseNumber('LLM_MAX_TOKENS', process.env.LLM_MAX_TOKENS) ?? DEFAULT_MAX_TOKENS,
+    temperature: overrides.temperature ?? parseNumber('LLM_TEMPERATURE', process.env.LLM_TEMPERATURE),
+  };
+}
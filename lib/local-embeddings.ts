@@ -0,0 +1,76 @@
+import type { EmbeddingProvider } from './embeddings';
+import { tokenize } from './tokenize';
+
+// Relative weight of each feature family in the hashed vector
+const WORD_WEIGHT = 1.0;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string, seed: number = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic embedding provider using the hashing trick over word unigrams,
+ * word bigrams and character trigrams. Needs no network access, so it is used for
+ * offline development and tests. Vectors are not comparable with OpenAI vectors -
+ * re-ingest after switching providers.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+
+  constructor(readonly dimension: number) {}
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    // A second hash picks the sign so collisions tend to cancel out rather than accumulate
+    const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+    vector[hash % this.dimension] += sign * weight;
+  }
+
+  embedText(text: string): number[] {
+    const counts = new Map<string, { count: number; weight: number }>();
+    const count = (feature: string, weight: number) => {
+      const existing = counts.get(feature);
+      if (existing) {
+        existing.count++;
+      } else {
+        counts.set(feature, { count: 1, weight });
+      }
+    };
+
+    const tokens = tokenize(text);
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      count(`w:${token}`, WORD_WEIGHT);
+      if (i + 1 < tokens.length) {
+        count(`b:${token} ${tokens[i + 1]}`, BIGRAM_WEIGHT);
+      }
+      const padded = `^${token}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        count(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const [feature, { count: n, weight }] of counts) {
+      // Sublinear term frequency keeps long, repetitive descriptions from dominating
+      this.addFeature(vector, feature, weight * (1 + Math.log(n)));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+}
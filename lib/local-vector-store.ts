@@ -0,0 +1,175 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { VectorMetadata } from './types';
+import { matchesSearchFilter, type SearchOptions, type UpsertVector, type VectorStore } from './vector-store';
+
+const LOCAL_VECTOR_STORE_VERSION = 1;
+
+interface LocalVectorStoreFile {
+  version: number;
+  vectors: UpsertVector[];
+}
+
+/**
+ * Cosine similarity between two vectors (0 when either is a zero vector)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * In-memory vector store with brute-force cosine search, persisted to a JSON file.
+ * Intended for offline development and tests - the data set is small enough that
+ * a linear scan is faster than any index would be. The file is re-read when it changes,
+ * so a running server picks up vectors written by `npm run ingest`.
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly name = 'local';
+  private vectors = new Map<string, UpsertVector>();
+  private loadedMtimeMs: number | null = null; // Modification time of the file last read or written
+
+  /**
+   * @param filePath JSON file to persist vectors to, or null to keep them in memory only
+   */
+  constructor(private readonly filePath: string | null) {}
+
+  private load(): void {
+    if (!this.filePath || !existsSync(this.filePath)) {
+      return;
+    }
+
+    // Another process (usually the ingest script) may have rewritten the file since
+    const mtimeMs = statSync(this.filePath).mtimeMs;
+    if (mtimeMs === this.loadedMtimeMs) {
+      return;
+    }
+    
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as LocalVectorStoreFile;
+      this.loadedMtimeMs = mtimeMs;
+      this.vectors.clear();
+      if (data.version !== LOCAL_VECTOR_STORE_VERSION) {
+        console.warn(`Ignoring local vector store at ${this.filePath}: unsupported version ${data.version}`);
+        return;
+      }
+      for (const vector of data.vectors) {
+        this.vectors.set(vector.id, vector);
+      }
+    } catch (error) {
+      console.error('Error loading local vector store:', error);
+      throw new Error('Failed to load local vector store');
+    }
+  }
+
+  private persist(): void {
+    if (!this.filePath) {
+      return;
+    }
+    
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      const data: LocalVectorStoreFile = {
+        version: LOCAL_VECTOR_STORE_VERSION,
+        vectors: Array.from(this.vectors.values()),
+      };
+      // Write then rename so a server reading the file never sees it half written
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(data));
+      renameSync(tempPath, this.filePath);
+      // Our own write shouldn't trigger a reload
+      this.loadedMtimeMs = statSync(this.filePath).mtimeMs;
+    } catch (error) {
+      console.error('Error saving local vector store:', error);
+      throw new Error('Failed to save local vector store');
+    }
+  }
+
+  async upsertMechanics(vectors: UpsertVector[]): Promise<void> {
+    this.load();
+    for (const vector of vectors) {
+      this.vectors.set(vector.id, vector);
+    }
+    this.persist();
+  }
+
+  async searchSimilar(
+    queryVector: number[],
+    options: SearchOptions = {}
+  ): Promise<Array<{ id: string; score: number; metadata: VectorMetadata }>> {
+    this.load();
+    
+    const matches: Array<{ id: string; score: number; metadata: VectorMetadata }> = [];
+    for (const vector of this.vectors.values()) {
+      if (!matchesSearchFilter(vector.metadata, options.filter)) {
+        continue;
+      }
+      matches.push({
+        id: vector.id,
+        score: cosineSimilarity(queryVector, vector.values),
+        metadata: vector.metadata,
+      });
+    }
+    
+    matches.sort((a, b) => b.score - a.score);
+    return matches.slice(0, options.topK || 10);
+  }
+
+  async deleteMechanics(ids: string[]): Promise<void> {
+    this.load();
+    for (const id of ids) {
+      this.vectors.delete(id);
+    }
+    this.persist();
+  }
+
+  async deleteAllMechanics(): Promise<void> {
+    this.load();
+    this.vectors.clear();
+    this.persist();
+    console.log('✓ All vectors deleted from local vector store');
+  }
+
+  async listAllMechanics(
+    filter?: { dungeonRaidName?: string }
+  ): Promise<Array<{ id: string; metadata: VectorMetadata }>> {
+    this.load();
+    
+    const results: Array<{ id: string; metadata: VectorMetadata }> = [];
+    for (const vector of this.vectors.values()) {
+      if (matchesSearchFilter(vector.metadata, filter)) {
+        results.push({ id: vector.id, metadata: vector.metadata });
+      }
+    }
+    return results;
+  }
+
+  async ensureIndex(): Promise<void> {
+    // Nothing to provision - the file is created on first write
+  }
+}
+
+/**
+ * Resolve the local vector store file from LOCAL_VECTOR_STORE_PATH.
+ * Set it to "memory" to disable persistence entirely (useful for tests).
+ */
+export function getLocalVectorStorePath(): string | null {
+  const configured = process.env.LOCAL_VECTOR_STORE_PATH;
+  if (configured === 'memory') {
+    return null;
+  }
+  return resolve(process.cwd(), configured || '.data/vector-store.json');
+}
@@ -0,0 +1,119 @@
+import type { Cache, CacheLimits, CacheStats } from './cache';
+
+interface LruEntry {
+  json: string; // Stored serialized so cached values can't be mutated by callers
+  bytes: number;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache bounded by entry count and size, evicting the least recently used
+ * entries first. Expired entries are removed on read and by a periodic sweep.
+ */
+export class LruCache implements Cache {
+  readonly name = 'memory';
+  // Map iteration follows insertion order, so re-inserting on access keeps the least
+  // recently used entry first
+  private readonly entries = new Map<string, LruEntry>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expired = 0;
+
+  constructor(private readonly limits: CacheLimits) {
+    if (limits.sweepIntervalMs > 0) {
+      // Don't keep the process alive just to sweep
+      setInterval(() => this.sweep(), limits.sweepIntervalMs).unref?.();
+    }
+  }
+
+  private remove(key: string, entry: LruEntry): void {
+    this.entries.delete(key);
+    this.bytes -= entry.bytes;
+  }
+
+  /**
+   * Remove every expired entry
+   */
+  sweep(now: number = Date.now()): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.remove(key, entry);
+        this.expired++;
+      }
+    }
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key, entry);
+      this.expired++;
+      this.misses++;
+      return null;
+    }
+
+    // Move to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return JSON.parse(entry.json) as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const json = JSON.stringify(value);
+    const bytes = Buffer.byteLength(json) + Buffer.byteLength(key);
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.remove(key, existing);
+    }
+    // A value larger than the whole cache would only evict everything else
+    if (this.limits.maxBytes > 0 && bytes > this.limits.maxBytes) {
+      return;
+    }
+
+    this.entries.set(key, { json, bytes, expiresAt: Date.now() + ttlMs });
+    this.bytes += bytes;
+
+    for (const [oldestKey, oldest] of this.entries) {
+      const overEntries = this.limits.maxEntries > 0 && this.entries.size > this.limits.maxEntries;
+      const overBytes = this.limits.maxBytes > 0 && this.bytes > this.limits.maxBytes;
+      if (!overEntries && !overBytes) {
+        break;
+      }
+      this.remove(oldestKey, oldest);
+      this.evictions++;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.remove(key, entry);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  async stats(): Promise<CacheStats> {
+    return {
+      backend: this.name,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expired: this.expired,
+    };
+  }
+}
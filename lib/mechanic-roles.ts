@@ -0,0 +1,49 @@
+import type { Encounter, Mechanic, MechanicRole } from './types';
+
+/**
+ * Default role for mechanics that don't declare one
+ */
+export const DEFAULT_MECHANIC_ROLE: MechanicRole = 'sub-mechanic';
+
+/**
+ * Get a mechanic's role, falling back to the default when the data doesn't set it
+ */
+export function getMechanicRole(mechanic: Pick<Mechanic, 'role'>): MechanicRole {
+  return mechanic.role ?? DEFAULT_MECHANIC_ROLE;
+}
+
+/**
+ * Check if a mechanic is an encounter flow mechanic - the overview of how the
+ * whole encounter plays out, which is always prioritized
+ */
+export function isFlowMechanic(mechanic: Pick<Mechanic, 'role'>): boolean {
+  return getMechanicRole(mechanic) === 'flow';
+}
+
+/**
+ * Suggest a role for a mechanic from its name. Only used to migrate data files
+ * that predate the role field - retrieval and the UI read the field itself.
+ */
+export function classifyMechanicRole(mechanic: Mechanic, encounter: Encounter): MechanicRole {
+  const name = mechanic.name.toLowerCase();
+
+  // "Overall Encounter Flow", "Vault Encounter Progression"
+  if (/\bflow\b|\bprogression\b/.test(name)) {
+    return 'flow';
+  }
+
+  // General contest information and warnings about hazards or wipes
+  if (
+    /\bgeneral\b/i.test(encounter.name) ||
+    /\bhazards?\b|\bwipe\b|\bconsequences?\b|\bcritical\b/.test(name)
+  ) {
+    return 'callout';
+  }
+
+  // Strategy and optimization advice rather than a mechanic itself
+  if (/\bstrateg(y|ies)\b|\boptimi[sz]ation\b|\btips?\b/.test(name)) {
+    return 'tip';
+  }
+
+  return DEFAULT_MECHANIC_ROLE;
+}
@@ -0,0 +1,74 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { ChatModelGenerateOptions, ChatModelProvider, ChatModelRequest, ChatModelStreamOptions } from './llm';
+
+/**
+ * One scripted reply. Entries with `match` answer when the latest user message
+ * contains it (case-insensitive); entries without it are used in turn for
+ * everything else. `{query}` in a response is replaced with the user message.
+ */
+export interface MockScriptEntry {
+  match?: string;
+  response: string;
+}
+
+/**
+ * Scripted chat model for offline development and end-to-end tests of /api/chat.
+ * Set MOCK_LLM_SCRIPT to a JSON file containing an array of MockScriptEntry.
+ */
+export class MockChatModel implements ChatModelProvider {
+  readonly name = 'mock';
+  private readonly entries: MockScriptEntry[];
+  private nextFallback = 0;
+
+  constructor(script?: string | MockScriptEntry[]) {
+    if (typeof script === 'string') {
+      this.entries = JSON.parse(readFileSync(resolve(process.cwd(), script), 'utf-8')) as MockScriptEntry[];
+    } else {
+      this.entries = script ?? [];
+    }
+  }
+
+  private respond(request: ChatModelRequest): string {
+    const lastUserMessage = [...request.messages].reverse().find((msg) => msg.role === 'user');
+    const query = lastUserMessage?.content ?? '';
+    const queryLower = query.toLowerCase();
+
+    const matched = this.entries.find(
+      (entry) => entry.match !== undefined && queryLower.includes(entry.match.toLowerCase())
+    );
+    if (matched) {
+      return matched.response.replaceAll('{query}', query);
+    }
+
+    const fallbacks = this.entries.filter((entry) => entry.match === undefined);
+    if (fallbacks.length > 0) {
+      const entry = fallbacks[this.nextFallback % fallbacks.length];
+      this.nextFallback++;
+      return entry.response.replaceAll('{query}', query);
+    }
+
+    return `Mock response to: ${query}\n\n(System prompt: ${request.system.length} characters, ${request.messages.length} message(s))`;
+  }
+
+  async generate(request: ChatModelRequest, options: ChatModelGenerateOptions = {}): Promise<string> {
+    options.signal?.throwIfAborted();
+    return this.respond(request);
+  }
+
+  async *stream(
+    request: ChatModelRequest,
+    options: ChatModelStreamOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    // Stream word by word (keeping whitespace) so clients see incremental output
+    const tokens = this.respond(request).split(/(?<=\s)/);
+    for (const token of tokens) {
+      options.signal?.throwIfAborted();
+      yield token;
+    }
+
+    // Rough counts: ~4 characters per prompt token, one token per streamed word
+    const promptChars = request.system.length + request.messages.reduce((sum, msg) => sum + msg.content.length, 0);
+    options.onUsage?.({ inputTokens: Math.ceil(promptChars / 4), outputTokens: tokens.length });
+  }
+}
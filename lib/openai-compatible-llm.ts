@@ -0,0 +1,80 @@
+import OpenAI from 'openai';
+import type { ChatModelGenerateOptions, ChatModelProvider, ChatModelRequest, ChatModelStreamOptions } from './llm';
+
+/**
+ * Chat model for any server speaking the OpenAI chat completions API
+ * (OpenAI itself, or local servers such as Ollama, LM Studio and vLLM).
+ * Configured with LLM_BASE_URL and LLM_API_KEY.
+ */
+export class OpenAICompatibleChatModel implements ChatModelProvider {
+  readonly name = 'openai-compatible';
+  private client: OpenAI | null = null;
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        baseURL: process.env.LLM_BASE_URL || undefined,
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || 'not-needed',
+      });
+    }
+    return this.client;
+  }
+
+  private buildMessages(request: ChatModelRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return [
+      { role: 'system', content: request.system },
+      ...request.messages.map((msg): OpenAI.Chat.ChatCompletionMessageParam => ({
+        role: msg.role,
+        content: msg.content,
+      })),
+    ];
+  }
+
+  async generate(request: ChatModelRequest, options: ChatModelGenerateOptions = {}): Promise<string> {
+    const response = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: this.buildMessages(request),
+      },
+      { signal: options.signal }
+    );
+
+    const content = response.choices[0]?.message?.content;
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    throw new Error('Unexpected response format from chat completions API');
+  }
+
+  async *stream(
+    request: ChatModelRequest,
+    options: ChatModelStreamOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    const stream = await this.getClient().chat.completions.create(
+      {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: this.buildMessages(request),
+        stream: true,
+        // Ask for a final chunk with token counts (servers that don't support it just omit it)
+        stream_options: { include_usage: true },
+      },
+      { signal: options.signal }
+    );
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) {
+        yield text;
+      }
+      if (chunk.usage) {
+        options.onUsage?.({ inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens });
+      }
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import OpenAI from 'openai';
+import type { EmbeddingProvider } from './embeddings';
+
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+
+/**
+ * Embedding provider backed by the OpenAI embeddings API.
+ * The client is created on first use so importing this module never requires an API key.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(readonly dimension: number) {}
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+      if (!OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY environment variable is not set');
+      }
+      this.client = new OpenAI({
+        apiKey: OPENAI_API_KEY,
+      });
+    }
+    return this.client;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.getClient().embeddings.create({
+      model: EMBEDDING_MODEL,
+      input: texts,
+      dimensions: this.dimension,
+    });
+
+    return response.data.map((item) => item.embedding);
+  }
+}
@@ -0,0 +1,249 @@
+import { Pinecone, type PineconeRecord, type QueryByVectorValues } from '@pinecone-database/pinecone';
+import type { VectorMetadata } from './types';
+import type { SearchOptions, UpsertVector, VectorStore } from './vector-store';
+
+const PINECONE_INDEX_NAME = process.env.PINECONE_INDEX_NAME || 'destiny-mechanics';
+
+// Initialize Pinecone client
+let pineconeClient: Pinecone | null = null;
+
+export async function getPineconeClient(): Promise<Pinecone> {
+  const PINECONE_API_KEY = process.env.PINECONE_API_KEY;
+  if (!PINECONE_API_KEY) {
+    throw new Error('PINECONE_API_KEY environment variable is not set');
+  }
+  
+  if (!pineconeClient) {
+    pineconeClient = new Pinecone({
+      apiKey: PINECONE_API_KEY,
+    });
+  }
+  return pineconeClient;
+}
+
+/**
+ * Name of the Pinecone index vectors are stored in (PINECONE_INDEX_NAME)
+ */
+export function getPineconeIndexName(): string {
+  return PINECONE_INDEX_NAME;
+}
+
+export async function getIndex() {
+  const client = await getPineconeClient();
+  return client.index(PINECONE_INDEX_NAME);
+}
+
+/**
+ * Build a Pinecone metadata filter from search options
+ */
+function buildPineconeFilter(filter: SearchOptions['filter']): Record<string, { $eq: string | number | boolean }> {
+  const pineconeFilter: Record<string, { $eq: string | number | boolean }> = {};
+  if (!filter) {
+    return pineconeFilter;
+  }
+  
+  if (filter.dungeonRaidName) {
+    pineconeFilter.dungeonRaidName = { $eq: filter.dungeonRaidName };
+  }
+  if (filter.encounterType) {
+    pineconeFilter.encounterType = { $eq: filter.encounterType };
+  }
+  if (filter.mechanicType) {
+    pineconeFilter.mechanicType = { $eq: filter.mechanicType };
+  }
+  if (filter.difficulty) {
+    pineconeFilter.difficulty = { $eq: filter.difficulty };
+  }
+  if (filter.contestModeSpecific !== undefined) {
+    pineconeFilter.contestModeSpecific = { $eq: filter.contestModeSpecific };
+  }
+  if (filter.encounterOrder !== undefined) {
+    pineconeFilter.encounterOrder = { $eq: filter.encounterOrder };
+  }
+  if (filter.encounterId) {
+    pineconeFilter.encounterId = { $eq: filter.encounterId };
+  }
+  return pineconeFilter;
+}
+
+/**
+ * Vector store backed by a Pinecone serverless index
+ */
+export class PineconeVectorStore implements VectorStore {
+  readonly name = 'pinecone';
+
+  /**
+   * Upsert mechanics data to Pinecone vector store
+   */
+  async upsertMechanics(vectors: UpsertVector[]): Promise<void> {
+    try {
+      const index = await getIndex();
+      
+      // Pinecone recommends batches of 100
+      const batchSize = 100;
+      for (let i = 0; i < vectors.length; i += batchSize) {
+        const batch = vectors.slice(i, i + batchSize);
+        await index.upsert(batch as unknown as PineconeRecord[]);
+      }
+    } catch (error) {
+      console.error('Error upserting mechanics to Pinecone:', error);
+      throw new Error('Failed to upsert mechanics to vector store');
+    }
+  }
+
+  /**
+   * Search for similar mechanics using semantic search
+   */
+  async searchSimilar(
+    queryVector: number[],
+    options: SearchOptions = {}
+  ): Promise<Array<{ id: string; score: number; metadata: VectorMetadata }>> {
+    try {
+      const index = await getIndex();
+      
+      const filter = buildPineconeFilter(options.filter);
+      const queryRequest: QueryByVectorValues = {
+        vector: queryVector,
+        topK: options.topK || 10,
+        includeMetadata: true,
+      };
+
+      if (Object.keys(filter).length > 0) {
+        queryRequest.filter = filter;
+      }
+
+      const queryResponse = await index.query(queryRequest);
+
+      return (queryResponse.matches || []).map((match) => ({
+        id: match.id,
+        score: match.score || 0,
+        metadata: match.metadata as unknown as VectorMetadata,
+      }));
+    } catch (error) {
+      console.error('Error searching Pinecone:', error);
+      throw new Error('Failed to search vector store');
+    }
+  }
+
+  /**
+   * Delete mechanics from vector store by IDs
+   */
+  async deleteMechanics(ids: string[]): Promise<void> {
+    try {
+      const index = await getIndex();
+      
+      // Pinecone delete accepts array of IDs
+      await index.deleteMany(ids);
+    } catch (error) {
+      console.error('Error deleting mechanics from Pinecone:', error);
+      throw new Error('Failed to delete mechanics from vector store');
+    }
+  }
+
+  /**
+   * Delete all vectors from the Pinecone index
+   */
+  async deleteAllMechanics(): Promise<void> {
+    try {
+      const index = await getIndex();
+      // Delete all vectors from default namespace
+      await index.deleteAll();
+      console.log('✓ All vectors deleted from Pinecone index');
+    } catch (error) {
+      console.error('Error deleting all mechanics from Pinecone:', error);
+      throw new Error('Failed to delete all mechanics from vector store');
+    }
+  }
+
+  /**
+   * List all mechanics from the Pinecone index
+   */
+  async listAllMechanics(
+    filter?: { dungeonRaidName?: string }
+  ): Promise<Array<{ id: string; metadata: VectorMetadata }>> {
+    try {
+      const index = await getIndex();
+      const allResults: Array<{ id: string; metadata: VectorMetadata }> = [];
+      
+      // Build filter for query
+      const queryFilter = buildPineconeFilter({ dungeonRaidName: filter?.dungeonRaidName });
+      
+      // Use query with a dummy vector to fetch all results
+      // Create a zero vector (dimension 512)
+      const dummyVector = new Array(512).fill(0);
+      
+      // Query with very large topK to get all results
+      // Note: Pinecone has limits, so we may need to paginate if there are > 10k vectors
+      const queryRequest: QueryByVectorValues = {
+        vector: dummyVector,
+        topK: 10000, // Large enough for most cases
+        includeMetadata: true,
+      };
+      
+      if (Object.keys(queryFilter).length > 0) {
+        queryRequest.filter = queryFilter;
+      }
+      
+      const queryResponse = await index.query(queryRequest);
+      
+      if (queryResponse.matches) {
+        for (const match of queryResponse.matches) {
+          allResults.push({
+            id: match.id,
+            metadata: match.metadata as unknown as VectorMetadata,
+          });
+        }
+      }
+      
+      return allResults;
+    } catch (error) {
+      console.error('Error listing mechanics from Pinecone:', error);
+      throw new Error('Failed to list mechanics from vector store');
+    }
+  }
+
+  /**
+   * Check if index exists and create if needed
+   */
+  async ensureIndex(dimension: number = 512): Promise<void> {
+    try {
+      const client = await getPineconeClient();
+      const indexes = await client.listIndexes();
+      
+      const indexExists = indexes.indexes?.some(
+        (idx) => idx.name === PINECONE_INDEX_NAME
+      );
+
+      if (!indexExists) {
+        await client.createIndex({
+          name: PINECONE_INDEX_NAME,
+          dimension,
+          metric: 'cosine',
+          spec: {
+            serverless: {
+              cloud: 'aws',
+              region: 'us-east-1',
+            },
+          },
+        });
+        
+        // Wait for index to be ready
+        let ready = false;
+        let attempts = 0;
+        while (!ready && attempts < 30) {
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+          const indexStatus = await client.describeIndex(PINECONE_INDEX_NAME);
+          ready = indexStatus.status?.ready === true;
+          attempts++;
+        }
+        
+        if (!ready) {
+          throw new Error('Index creation timed out');
+        }
+      }
+    } catch (error) {
+      console.error('Error ensuring index exists:', error);
+      throw new Error('Failed to ensure index exists');
+    }
+  }
+}
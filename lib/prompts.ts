@@ -0,0 +1,131 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { loadContestProfile } from './contest';
+import { DungeonRaidSchema } from './types';
+
+/**
+ * Settings shared by every prompt in a template version (prompts/<version>/prompt.json).
+ * Everything about the current contest comes from the contest profile instead.
+ */
+interface PromptConfig {
+  version: number;
+  generalInfoFile: string; // Data file whose mechanics are listed as the contest rules
+}
+
+export interface SystemPromptOptions {
+  dungeonRaidName?: string; // Dungeon the request is about; its guidance is used when a template exists
+  version?: string; // Template version directory, defaults to PROMPT_VERSION or "v1"
+}
+
+const DEFAULT_PROMPT_VERSION = 'v1';
+const ORDINALS = ['FIRST', 'SECOND', 'THIRD', 'FOURTH', 'FIFTH', 'SIXTH', 'SEVENTH', 'EIGHTH', 'NINTH', 'TENTH'];
+
+// Template files don't change while the server runs, so read each once
+const fileCache = new Map<string, string>();
+
+function getPromptVersion(options: SystemPromptOptions): string {
+  return options.version || process.env.PROMPT_VERSION || DEFAULT_PROMPT_VERSION;
+}
+
+function readPromptFile(...segments: string[]): string {
+  const filePath = join(process.cwd(), ...segments);
+  let content = fileCache.get(filePath);
+  if (content === undefined) {
+    if (!existsSync(filePath)) {
+      throw new Error(`Prompt template not found: ${segments.join('/')}`);
+    }
+    content = readFileSync(filePath, 'utf-8');
+    fileCache.set(filePath, content);
+  }
+  return content;
+}
+
+/**
+ * Id used for dungeon guidance files ("Vesper's Host" -> "vespers-host")
+ */
+export function getDungeonTemplateId(dungeonRaidName: string): string {
+  return dungeonRaidName
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Guidance for one dungeon (prompts/<version>/dungeons/<dungeon-id>.md), inserted as
+ * {{dungeonGuidance}}, or undefined if the dungeon has no template
+ */
+function loadDungeonGuidance(version: string, dungeonRaidName: string): string | undefined {
+  const fileName = `${getDungeonTemplateId(dungeonRaidName)}.md`;
+  if (!existsSync(join(process.cwd(), 'prompts', version, 'dungeons', fileName))) {
+    return undefined;
+  }
+  return readPromptFile('prompts', version, 'dungeons', fileName).trim();
+}
+
+/**
+ * The general information mechanics as a bullet list
+ */
+function formatContestRules(config: PromptConfig): string {
+  const dungeonRaid = DungeonRaidSchema.parse(JSON.parse(readPromptFile(config.generalInfoFile)));
+  return dungeonRaid.encounters
+    .flatMap((encounter) => encounter.mechanics)
+    .map((mechanic) => `- ${mechanic.name}: ${mechanic.description}`)
+    .join('\n');
+}
+
+/**
+ * Comments document a template and never reach the model
+ */
+function stripTemplateComments(template: string): string {
+  return template.replace(/<!--[\s\S]*?-->\n?/g, '');
+}
+
+/**
+ * Replace every {{variable}} in a template. Unknown variables are an error so a
+ * typo in a template can't silently reach the model.
+ */
+export function renderPromptTemplate(template: string, variables: Record<string, string | number>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Unknown prompt template variable "${name}"`);
+    }
+    return String(variables[name]);
+  });
+}
+
+/**
+ * System prompt for folding older chat messages into the conversation's running summary
+ */
+export function buildSummaryPrompt(options: Pick<SystemPromptOptions, 'version'> = {}): string {
+  const version = getPromptVersion(options);
+  return stripTemplateComments(readPromptFile('prompts', version, 'summary.md')).trim();
+}
+
+/**
+ * Build the system prompt for one request from the versioned templates in prompts/ and
+ * the contest profile. The request's dungeon selects its guidance when a template exists
+ * for it; otherwise the contest dungeon's guidance is used, if it has any.
+ */
+export function buildSystemPrompt(context: string, options: SystemPromptOptions = {}): string {
+  const version = getPromptVersion(options);
+  const config = JSON.parse(readPromptFile('prompts', version, 'prompt.json')) as PromptConfig;
+  const profile = loadContestProfile();
+
+  const requested = options.dungeonRaidName ? loadDungeonGuidance(version, options.dungeonRaidName) : undefined;
+  const previous = profile.previousContestDungeons;
+
+  const template = stripTemplateComments(readPromptFile('prompts', version, 'system.md'));
+
+  return renderPromptTemplate(template, {
+    playerCount: profile.playerCount,
+    currentDungeon: profile.dungeonName,
+    contestOrdinal: ORDINALS[previous.length] ?? `#${previous.length + 1}`,
+    previousDungeons: previous.length > 0 ? previous.join(' and ') : 'none',
+    theme: profile.expectedThemes.join(' and ') || 'an unknown',
+    expectedBossCount: profile.expectedBossCount ?? 'an unknown number of',
+    dungeonGuidance: requested ?? loadDungeonGuidance(version, profile.dungeonName) ?? '',
+    contestRules: formatContestRules(config),
+    context,
+  }).trim();
+}
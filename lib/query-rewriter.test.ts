@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { rewriteFollowUpQuery } from './query-rewriter';
+import { loadMechanicStore } from './rag';
+import type { ChatMessage } from './types';
+
+const history: ChatMessage[] = [
+  { role: 'user', content: "How does the Atraks fight work in Vesper's Host?" },
+  { role: 'assistant', content: 'Atraks splits into clones...' },
+];
+
+describe('rewriteFollowUpQuery', () => {
+  before(async () => {
+    await loadMechanicStore();
+  });
+
+  it('carries the dungeon and encounter forward into a follow-up', () => {
+    const rewritten = rewriteFollowUpQuery('what about the damage phase?', history);
+    assert.equal(rewritten.dungeonRaidName, "Vesper's Host");
+    assert.equal(rewritten.encounterName, 'The Corrupted Puppeteer (Atraks)');
+    assert.deepEqual(rewritten.carriedForward, ['dungeon', 'encounter']);
+  });
+
+  it('leaves a short new question alone', () => {
+    const rewritten = rewriteFollowUpQuery('any tips for contest mode?', history);
+    assert.equal(rewritten.rewritten, false);
+    assert.equal(rewritten.dungeonRaidName, undefined);
+    assert.equal(rewritten.encounterId, undefined);
+  });
+
+  it('steps to the boss before the one discussed', () => {
+    const rewritten = rewriteFollowUpQuery('and the previous boss?', history);
+    assert.equal(rewritten.encounterName, 'Raneiks Unified');
+  });
+});
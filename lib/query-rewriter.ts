@@ -0,0 +1,128 @@
+import { getLoadedDungeonRaids, resolveDungeon, resolveEncounterForQuery } from './rag';
+import type { ChatMessage, Encounter } from './types';
+
+// Openers and references that only make sense in light of earlier messages
+const FOLLOW_UP_PATTERN = /^(and|but|also|so|then|ok(ay)?|what about|how about|what if)\b|\b(it|its|that|this|those|these|they|them|there|here|same|again|instead)\b/i;
+
+// Relative references to the encounter discussed before ("the next boss", "previous encounter")
+const RELATIVE_ENCOUNTER_PATTERN = /\b(next|following|previous|prior)\s+(encounter|boss|room|fight|section|part)\b/i;
+
+export interface RewrittenQuery {
+  query: string; // Standalone query used for retrieval
+  original: string;
+  rewritten: boolean;
+  dungeonRaidName?: string;
+  encounterId?: string;
+  encounterName?: string;
+  carriedForward: Array<'dungeon' | 'encounter'>; // What was inferred from earlier messages
+}
+
+/**
+ * Whether the query refers back to earlier messages. Length alone says nothing -
+ * "any tips for contest mode?" is short but a new question.
+ */
+function isFollowUp(query: string): boolean {
+  return FOLLOW_UP_PATTERN.test(query.trim()) || RELATIVE_ENCOUNTER_PATTERN.test(query);
+}
+
+/**
+ * The nearest encounter after (direction 1) or before (direction -1) `encounter`
+ * in its dungeon's order, optionally only counting bosses
+ */
+function getAdjacentEncounter(
+  dungeonRaidName: string,
+  encounter: Encounter,
+  direction: 1 | -1,
+  bossOnly: boolean
+): Encounter | undefined {
+  const dungeonRaid = getLoadedDungeonRaids().find((candidate) => candidate.name === dungeonRaidName);
+  if (!dungeonRaid || encounter.order === undefined) {
+    return undefined;
+  }
+  const order = encounter.order;
+  return dungeonRaid.encounters
+    .filter((candidate) => candidate.order !== undefined && (candidate.order - order) * direction > 0)
+    .filter((candidate) => !bossOnly || candidate.type === 'boss')
+    .sort((a, b) => (a.order! - b.order!) * direction)[0];
+}
+
+/**
+ * Condense a follow-up question into a standalone retrieval query using the earlier
+ * user messages. When the query reads as a follow-up ("what about the second phase?",
+ * "is it the same on the next boss?"), the dungeon named most recently is carried forward
+ * if the query names none, and the encounter is carried forward (or stepped with
+ * "next"/"previous"). Other questions are left as they are. Call loadMechanicStore() first.
+ *
+ * @param history Earlier messages, oldest first, not including the query itself
+ * @param dungeonRaidName Dungeon filter chosen explicitly by the client, if any
+ */
+export function rewriteFollowUpQuery(
+  query: string,
+  history: ChatMessage[],
+  dungeonRaidName?: string
+): RewrittenQuery {
+  const carriedForward: RewrittenQuery['carriedForward'] = [];
+  // Assistant answers mention many dungeons for comparison, so only the user's own messages count
+  const earlierQueries = history
+    .filter((message) => message.role === 'user')
+    .map((message) => message.content)
+    .reverse();
+
+  // Dungeon: explicit filter, then the query itself, then the most recent message naming one
+  const followUp = isFollowUp(query);
+  let dungeon = dungeonRaidName ? resolveDungeon(dungeonRaidName)?.name ?? dungeonRaidName : resolveDungeon(query)?.name;
+  if (!dungeon && followUp) {
+    for (const earlier of earlierQueries) {
+      dungeon = resolveDungeon(earlier)?.name;
+      if (dungeon) {
+        carriedForward.push('dungeon');
+        break;
+      }
+    }
+  }
+
+  // Encounter: named in the query, or carried forward from the most recent message naming one
+  let encounter = resolveEncounterForQuery(query, dungeon)?.encounter;
+  if (!encounter && dungeon && followUp) {
+    for (const earlier of earlierQueries) {
+      const previous = resolveEncounterForQuery(earlier, dungeon)?.encounter;
+      if (previous) {
+        const relative = query.match(RELATIVE_ENCOUNTER_PATTERN);
+        if (relative) {
+          const direction = ['next', 'following'].includes(relative[1].toLowerCase()) ? 1 : -1;
+          encounter = getAdjacentEncounter(dungeon, previous, direction, relative[2].toLowerCase() === 'boss');
+        } else {
+          encounter = previous;
+        }
+        if (encounter) {
+          carriedForward.push('encounter');
+        }
+        break;
+      }
+    }
+  }
+
+  if (carriedForward.length === 0) {
+    return {
+      query,
+      original: query,
+      rewritten: false,
+      dungeonRaidName: dungeon,
+      encounterId: encounter?.id,
+      encounterName: encounter?.name,
+      carriedForward,
+    };
+  }
+
+  // Prefix the inferred context so both embeddings and BM25 see the names
+  const context = [encounter?.name, dungeon].filter(Boolean).join(', ');
+  return {
+    query: `${context}: ${query}`,
+    original: query,
+    rewritten: true,
+    dungeonRaidName: dungeon,
+    encounterId: encounter?.id,
+    encounterName: encounter?.name,
+    carriedForward,
+  };
+}
@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { retrieveRelevantMechanics } from './rag';
+
+describe('retrieveRelevantMechanics', () => {
+  before(() => {
+    process.env.VECTOR_STORE = 'local';
+    process.env.LOCAL_VECTOR_STORE_PATH = 'memory';
+    process.env.EMBEDDING_PROVIDER = 'local';
+  });
+
+  it('ranks the resolved encounter first without leaving out other encounters', async () => {
+    const results = await retrieveRelevantMechanics("vesper's host raneiks suppressor activation", {
+      filter: { dungeonRaidName: "Vesper's Host" },
+    });
+    assert.equal(results[0]?.encounter.name, 'Raneiks Unified');
+    assert.ok(results.some((result) => result.encounter.name !== 'Raneiks Unified'));
+  });
+
+  it('ranks an exact name match above flow mechanics that match weakly', async () => {
+    const results = await retrieveRelevantMechanics('Truthspeaker Grims');
+    assert.match(results[0]?.mechanic.name ?? '', /Truthspeaker Grims/);
+  });
+
+  it('keeps results in score order', async () => {
+    const results = await retrieveRelevantMechanics('encounter flow and strategy', { topK: 20 });
+    const scores = results.map((result) => result.score);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+  });
+});
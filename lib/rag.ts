@@ -1,23 +1,59 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { generateEmbedding } from './embeddings';
-import { searchSimilar, type SearchOptions } from './vector-store';
-import type { Mechanic, Encounter, DungeonRaid, VectorMetadata, SearchResult } from './types';
-
-const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
-
-if (!ANTHROPIC_API_KEY) {
-  throw new Error('ANTHROPIC_API_KEY environment variable is not set');
-}
-
-const anthropic = new Anthropic({
-  apiKey: ANTHROPIC_API_KEY,
-});
+import { searchSimilar, matchesSearchFilter, type SearchOptions } from './vector-store';
+import {
+  getChatModelOptions,
+  getChatModelProvider,
+  type ChatModelMessage,
+  type ChatModelOptions,
+  type ChatModelStreamOptions,
+} from './llm';
+import { buildSystemPrompt, type SystemPromptOptions } from './prompts';
+import { Bm25Index, bm25Tokens } from './bm25';
+import { chunkMechanic, type MechanicChunk } from './chunking';
+import { buildAliasIndex, resolveDungeonName, type DungeonAlias, type DungeonMatch } from './dungeon-aliases';
+import { resolveEncounter, type EncounterMatch } from './encounter-resolver';
+import { getMechanicRole, isFlowMechanic } from './mechanic-roles';
+import { getCitationKey } from './citations';
+import { getReferenceDungeonBoost, loadContestProfile } from './contest';
+import { ContextBudgetTracker, dropFittedItem, getContextBudget, type ContextBlock, type ContextBudget } from './context-budget';
+import type { Mechanic, Encounter, DungeonRaid, VectorMetadata, SearchResult, RetrievalScores, ChunkHighlight, Session, SessionMechanic, ContextReport } from './types';
 
 // Store for full mechanic data (in production, this would be a database)
 // For now, we'll reconstruct from metadata and stored data
 const mechanicStore = new Map<string, { mechanic: Mechanic; encounter: Encounter; dungeonRaid: DungeonRaid }>();
 let storeLoaded = false;
 
+// Full dungeon/raid records by name, including any with no mechanics yet
+const dungeonStore = new Map<string, DungeonRaid>();
+
+// BM25 index over the chunks of every mechanic in mechanicStore, rebuilt lazily whenever the store changes
+let lexicalIndex: Bm25Index | null = null;
+const lexicalChunks = new Map<string, MechanicChunk>();
+
+// Dungeon alias index over dungeonStore, rebuilt lazily whenever the store changes
+let aliasIndex: DungeonAlias[] | null = null;
+
+// Reciprocal rank fusion constant - dampens the advantage of top ranks in either list
+const RRF_K = 60;
+
+// Average number of chunk vectors per mechanic, used to oversample chunk searches
+const CHUNK_OVERSAMPLE = 3;
+
+// Flow mechanics score 30% higher than other mechanics with the same fused score
+const FLOW_BOOST = 1.3;
+
+// Mechanics of the encounter the query is about score 50% higher
+const ENCOUNTER_BOOST = 1.5;
+
+export type StoredMechanic = { mechanic: Mechanic; encounter: Encounter; dungeonRaid: DungeonRaid };
+type CandidateResult = {
+  id: string;
+  score: number;
+  metadata: VectorMetadata;
+  scores?: RetrievalScores;
+  highlight?: Omit<ChunkHighlight, 'terms'>;
+};
+
 /**
  * Register mechanic data for retrieval
  */
@@ -27,6 +63,178 @@ export function registerMechanic(
   dungeonRaid: DungeonRaid
 ): void {
   mechanicStore.set(mechanic.id, { mechanic, encounter, dungeonRaid });
+  registerDungeonRaid(dungeonRaid);
+  lexicalIndex = null;
+}
+
+/**
+ * Register a dungeon/raid record (called for every loaded file, even without mechanics)
+ */
+export function registerDungeonRaid(dungeonRaid: DungeonRaid): void {
+  dungeonStore.set(dungeonRaid.name, dungeonRaid);
+  aliasIndex = null;
+}
+
+/**
+ * All loaded dungeon/raid records
+ */
+export function getLoadedDungeonRaids(): DungeonRaid[] {
+  return Array.from(dungeonStore.values());
+}
+
+/**
+ * Full record of a loaded mechanic with its encounter and dungeon/raid. Call loadMechanicStore() first.
+ */
+export function getStoredMechanic(mechanicId: string): StoredMechanic | undefined {
+  return mechanicStore.get(mechanicId);
+}
+
+/**
+ * Every loaded mechanic with its encounter and dungeon/raid. Call loadMechanicStore() first.
+ */
+export function getStoredMechanics(): StoredMechanic[] {
+  return Array.from(mechanicStore.values());
+}
+
+/**
+ * Reconstruct vector metadata for a stored mechanic
+ */
+function toVectorMetadata(stored: StoredMechanic): VectorMetadata {
+  return {
+    mechanicId: stored.mechanic.id,
+    mechanicName: stored.mechanic.name,
+    encounterId: stored.encounter.id,
+    encounterName: stored.encounter.name,
+    encounterOrder: stored.encounter.order,
+    dungeonRaidId: stored.dungeonRaid.id,
+    dungeonRaidName: stored.dungeonRaid.name,
+    dungeonRaidType: stored.dungeonRaid.type,
+    mechanicType: stored.mechanic.type,
+    mechanicRole: getMechanicRole(stored.mechanic),
+    encounterType: stored.encounter.type,
+    difficulty: stored.mechanic.difficulty,
+    contestModeSpecific: stored.mechanic.contestModeSpecific,
+  };
+}
+
+/**
+ * Get the BM25 index over the chunks of all registered mechanics, building it if needed
+ */
+function getLexicalIndex(): Bm25Index {
+  if (!lexicalIndex) {
+    lexicalChunks.clear();
+    for (const { mechanic, encounter, dungeonRaid } of mechanicStore.values()) {
+      for (const chunk of chunkMechanic(mechanic, encounter, dungeonRaid)) {
+        lexicalChunks.set(chunk.id, chunk);
+      }
+    }
+    const documents = Array.from(lexicalChunks.values(), (chunk) => ({
+      id: chunk.id,
+      // Mechanic name is repeated to weight it above the free-text passage
+      text: `${mechanicStore.get(chunk.mechanicId)!.mechanic.name}\n${chunk.text}`,
+    }));
+    lexicalIndex = new Bm25Index(documents);
+  }
+  return lexicalIndex;
+}
+
+/**
+ * Lexical (BM25) search over mechanic chunks, honoring the same filters as the vector store
+ */
+function searchLexical(query: string, filter: SearchOptions['filter'], topK: number): CandidateResult[] {
+  const index = getLexicalIndex();
+  return index
+    .search(query, {
+      topK,
+      include: (id) => {
+        const stored = mechanicStore.get(lexicalChunks.get(id)!.mechanicId);
+        return stored !== undefined && matchesSearchFilter(toVectorMetadata(stored), filter);
+      },
+    })
+    .map(({ id, score }) => {
+      const chunk = lexicalChunks.get(id)!;
+      return {
+        id,
+        score,
+        metadata: {
+          ...toVectorMetadata(mechanicStore.get(chunk.mechanicId)!),
+          chunkIndex: chunk.index,
+          chunkField: chunk.field,
+          chunkText: chunk.passage,
+        },
+      };
+    });
+}
+
+/**
+ * Collapse chunk hits (sorted best first) to one result per mechanic, keeping the
+ * best-scoring chunk as the highlighted passage
+ */
+function aggregateChunks(results: CandidateResult[]): CandidateResult[] {
+  const byMechanic = new Map<string, CandidateResult>();
+  for (const result of results) {
+    const { mechanicId, chunkField, chunkText } = result.metadata;
+    if (byMechanic.has(mechanicId)) {
+      continue;
+    }
+    byMechanic.set(mechanicId, {
+      ...result,
+      id: mechanicId,
+      highlight: chunkField && chunkText ? { chunkId: result.id, field: chunkField, text: chunkText } : undefined,
+    });
+  }
+  return Array.from(byMechanic.values());
+}
+
+/**
+ * Query terms that occur in a passage, for highlighting
+ */
+function findMatchedTerms(query: string, passage: string): string[] {
+  const passageTokens = new Set(bm25Tokens(passage));
+  return Array.from(new Set(bm25Tokens(query).filter((term) => passageTokens.has(term))));
+}
+
+/**
+ * Combine semantic and lexical rankings with reciprocal rank fusion.
+ * The fused score is normalized so a result ranked first by every source scores 1.0.
+ * The highlighted passage comes from whichever source ranked the mechanic higher.
+ */
+function fuseResults(semantic: CandidateResult[], lexical: CandidateResult[]): CandidateResult[] {
+  const fused = new Map<string, CandidateResult & { scores: RetrievalScores }>();
+  const getEntry = (result: CandidateResult) => {
+    const key = result.metadata.mechanicId;
+    let entry = fused.get(key);
+    if (!entry) {
+      entry = { id: result.id, score: 0, metadata: result.metadata, scores: { fused: 0 }, highlight: result.highlight };
+      fused.set(key, entry);
+    }
+    return entry;
+  };
+  
+  semantic.forEach((result, index) => {
+    const entry = getEntry(result);
+    entry.scores.semantic = result.score;
+    entry.scores.semanticRank = index + 1;
+    entry.scores.fused += 1 / (RRF_K + index + 1);
+  });
+  lexical.forEach((result, index) => {
+    const entry = getEntry(result);
+    entry.scores.lexical = result.score;
+    entry.scores.lexicalRank = index + 1;
+    entry.scores.fused += 1 / (RRF_K + index + 1);
+    if (result.highlight && (entry.scores.semanticRank === undefined || index + 1 < entry.scores.semanticRank || !entry.highlight)) {
+      entry.highlight = result.highlight;
+    }
+  });
+  
+  const sources = (semantic.length > 0 ? 1 : 0) + (lexical.length > 0 ? 1 : 0);
+  const maxScore = sources / (RRF_K + 1);
+  for (const entry of fused.values()) {
+    entry.scores.fused = maxScore > 0 ? entry.scores.fused / maxScore : 0;
+    entry.score = entry.scores.fused;
+  }
+  
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
 }
 
 /**
@@ -54,6 +262,7 @@ export async function loadMechanicStore(): Promise<void> {
         const fileContent = readFileSync(filePath, 'utf-8');
         const data = JSON.parse(fileContent);
         const dungeonRaid = DungeonRaidSchema.parse(data);
+        registerDungeonRaid(dungeonRaid);
         
         for (const encounter of dungeonRaid.encounters) {
           for (const mechanic of encounter.mechanics) {
@@ -74,182 +283,61 @@ export async function loadMechanicStore(): Promise<void> {
 }
 
 /**
- * Check if a mechanic is an encounter flow mechanic
+ * Resolve the dungeon/raid a query refers to using the names and aliases of the
+ * loaded data, tolerating typos and abbreviations ("VH", "sundred doctrine").
+ * Call loadMechanicStore() first.
  */
-function isEncounterFlowMechanic(mechanic: Mechanic): boolean {
-  const flowKeywords = ['flow', 'strategy', 'progression', 'overall encounter'];
-  const nameLower = mechanic.name.toLowerCase();
-  return flowKeywords.some(keyword => nameLower.includes(keyword));
+export function resolveDungeon(query: string): DungeonMatch | undefined {
+  if (!aliasIndex) {
+    aliasIndex = buildAliasIndex(getLoadedDungeonRaids());
+  }
+  return resolveDungeonName(query, aliasIndex);
 }
 
 /**
  * Extract dungeon/raid name from query
- * Returns the matched name or undefined
+ * Returns the canonical name or undefined
  */
 export function extractDungeonName(query: string): string | undefined {
-  const queryLower = query.toLowerCase();
-  
-  // List of all dungeon/raid names in the database
-  const dungeonNames = [
-    "warlord's ruin",
-    "warlords ruin",
-    "duality",
-    "vesper's host",
-    "vespers host",
-    "sundered doctrine",
-    "equilibrium"
-  ];
-  
-  // Check for exact matches or partial matches
-  for (const name of dungeonNames) {
-    if (queryLower.includes(name.toLowerCase())) {
-      // Return the canonical name (from database)
-      const canonicalNames: Record<string, string> = {
-        "warlord's ruin": "Warlord's Ruin",
-        "warlords ruin": "Warlord's Ruin",
-        "duality": "Duality",
-        "vesper's host": "Vesper's Host",
-        "vespers host": "Vesper's Host",
-        "sundered doctrine": "Sundered Doctrine",
-        "equilibrium": "Equilibrium"
-      };
-      return canonicalNames[name] || name;
-    }
-  }
-  
-  return undefined;
+  return resolveDungeon(query)?.name;
 }
 
 /**
- * Detect encounter position keywords from query
- * Returns the target encounter order or undefined, and whether it's specifically looking for a boss
+ * Resolve the encounter a query is about ("4th encounter", "penultimate boss",
+ * "the boss after the traversal", "Zoetic Lockset") against the loaded encounter data.
+ * Ordinals need a dungeon; without one only unambiguous encounter names are matched.
+ * Call loadMechanicStore() first.
  */
-export function detectEncounterPosition(query: string): { 
-  position: 'first' | 'second' | 'third' | 'last' | 'final'; 
-  orderNumber?: number;
-  isBossQuery?: boolean; // True if specifically asking for "boss", false if "encounter", undefined if not specified
-} | undefined {
-  const queryLower = query.toLowerCase();
-  
-  // Final/last boss or encounter
-  if (queryLower.includes('final boss') || queryLower.includes('last boss')) {
-    return { position: 'final', isBossQuery: true };
-  }
-  if (queryLower.includes('final encounter') || queryLower.includes('last encounter')) {
-    return { position: 'final', isBossQuery: false };
-  }
-  
-  // First boss vs first encounter
-  if (queryLower.includes('first boss') || queryLower.includes('1st boss')) {
-    return { position: 'first', isBossQuery: true };
-  }
-  if (queryLower.includes('first encounter') || queryLower.includes('1st encounter')) {
-    return { position: 'first', orderNumber: 1, isBossQuery: false };
+export function resolveEncounterForQuery(query: string, dungeonRaidName?: string): EncounterMatch | undefined {
+  if (dungeonRaidName) {
+    const dungeonRaid = dungeonStore.get(dungeonRaidName);
+    return dungeonRaid ? resolveEncounter(query, [dungeonRaid], true) : undefined;
   }
-  
-  // Second boss vs second encounter
-  if (queryLower.includes('second boss') || queryLower.includes('2nd boss')) {
-    return { position: 'second', isBossQuery: true };
-  }
-  if (queryLower.includes('second encounter') || queryLower.includes('2nd encounter')) {
-    return { position: 'second', orderNumber: 2, isBossQuery: false };
-  }
-  
-  // Third boss vs third encounter
-  if (queryLower.includes('third boss') || queryLower.includes('3rd boss')) {
-    return { position: 'third', isBossQuery: true };
-  }
-  if (queryLower.includes('third encounter') || queryLower.includes('3rd encounter')) {
-    return { position: 'third', orderNumber: 3, isBossQuery: false };
-  }
-  
-  return undefined;
+  return resolveEncounter(query, getLoadedDungeonRaids(), false);
+}
+
+export interface RetrievalOptions extends SearchOptions {
+  preferredEncounterId?: string; // Encounter to rank first; resolved from the query when not given
 }
 
 /**
- * Retrieve relevant mechanics based on query
- * PRIORITIZES ENCOUNTER FLOW MECHANICS - the most important data for users
+ * Retrieve relevant mechanics based on query, ranked by fused score with encounter
+ * flow mechanics boosted - the most important data for users
  */
 export async function retrieveRelevantMechanics(
   query: string,
-  options: SearchOptions = {}
+  options: RetrievalOptions = {}
 ): Promise<SearchResult[]> {
   try {
     // Ensure store is loaded before searching
     await loadMechanicStore();
     
-    // Check if query mentions "final boss" or "last boss"
-    const queryLower = query.toLowerCase();
-    const isFinalBossQuery = queryLower.includes('final boss') || 
-                             queryLower.includes('last boss') ||
-                             queryLower.includes('final encounter');
-    
-    // Detect encounter position from query (first, second, final, etc.) BEFORE searching
-    const encounterPosition = detectEncounterPosition(query);
-    
-    // Track encounter orders to find max (for final boss) or specific order
-    let maxEncounterOrder = 0;
-    let targetEncounterOrder: number | undefined = undefined;
-    const isBossQuery = encounterPosition?.isBossQuery;
-    
-    // If filtering by dungeon and looking for final boss, find max encounter order from all mechanics in that dungeon
-    if (options.filter?.dungeonRaidName && (encounterPosition?.position === 'final' || isFinalBossQuery)) {
-      // Look through all mechanics in the store for this dungeon to find max order
-      // If it's specifically a boss query, only count encounters with type "boss"
-      for (const [_, stored] of mechanicStore.entries()) {
-        if (stored.dungeonRaid.name === options.filter.dungeonRaidName && stored.encounter.order) {
-          // If looking for final boss specifically, only count boss encounters
-          if (isBossQuery && stored.encounter.type !== 'boss') {
-            continue;
-          }
-          maxEncounterOrder = Math.max(maxEncounterOrder, stored.encounter.order);
-        }
-      }
-      targetEncounterOrder = maxEncounterOrder;
-    } else if (encounterPosition?.position === 'first' && isBossQuery === true) {
-      // Looking for "first boss" - find the first encounter with type "boss"
-      const bossEncounters: number[] = [];
-      for (const [_, stored] of mechanicStore.entries()) {
-        if (options.filter?.dungeonRaidName && stored.dungeonRaid.name === options.filter.dungeonRaidName) {
-          if (stored.encounter.type === 'boss' && stored.encounter.order) {
-            bossEncounters.push(stored.encounter.order);
-          }
-        }
-      }
-      if (bossEncounters.length > 0) {
-        targetEncounterOrder = Math.min(...bossEncounters); // First boss = minimum order among bosses
-      }
-    } else if (encounterPosition?.position === 'second' && isBossQuery === true) {
-      // Looking for "second boss" - find the second boss encounter by order
-      const bossEncounters: number[] = [];
-      for (const [_, stored] of mechanicStore.entries()) {
-        if (options.filter?.dungeonRaidName && stored.dungeonRaid.name === options.filter.dungeonRaidName) {
-          if (stored.encounter.type === 'boss' && stored.encounter.order) {
-            bossEncounters.push(stored.encounter.order);
-          }
-        }
-      }
-      if (bossEncounters.length >= 2) {
-        const sorted = [...bossEncounters].sort((a, b) => a - b);
-        targetEncounterOrder = sorted[1]; // Second boss = second lowest order
-      }
-    } else if (encounterPosition?.position === 'third' && isBossQuery === true) {
-      // Looking for "third boss" - find the third boss encounter by order
-      const bossEncounters: number[] = [];
-      for (const [_, stored] of mechanicStore.entries()) {
-        if (options.filter?.dungeonRaidName && stored.dungeonRaid.name === options.filter.dungeonRaidName) {
-          if (stored.encounter.type === 'boss' && stored.encounter.order) {
-            bossEncounters.push(stored.encounter.order);
-          }
-        }
-      }
-      if (bossEncounters.length >= 3) {
-        const sorted = [...bossEncounters].sort((a, b) => a - b);
-        targetEncounterOrder = sorted[2]; // Third boss = third lowest order
-      }
-    } else if (encounterPosition?.orderNumber) {
-      targetEncounterOrder = encounterPosition.orderNumber;
-    }
+    // The encounter the query seems to be about only ranks its mechanics higher - a
+    // wrong guess must not hide the mechanics that were actually asked about
+    const filter: NonNullable<SearchOptions['filter']> = { ...options.filter };
+    const preferredEncounterId = filter.encounterId
+      ? undefined
+      : options.preferredEncounterId ?? resolveEncounterForQuery(query, filter.dungeonRaidName)?.encounter.id;
     
     // Generate embedding for query
     const queryEmbedding = await generateEmbedding(query);
@@ -257,46 +345,34 @@ export async function retrieveRelevantMechanics(
     // Search vector store - get more results to ensure we capture flow mechanics
     // Increase topK significantly when filtering to ensure we get enough results
     const baseTopK = options.topK || 10;
-    const adjustedTopK = options.filter?.dungeonRaidName 
+    const adjustedTopK = filter.dungeonRaidName 
       ? baseTopK * 4  // When filtering by dungeon, get many more to ensure we find relevant mechanics
       : baseTopK * 2; // Otherwise, double it for flow mechanics
     
-    // Build search options - DON'T filter by encounterOrder at Pinecone level
-    // We'll filter/boost by encounter order AFTER semantic search to avoid missing results
+    // Mechanics are stored as several chunk vectors, so fetch more hits than mechanics needed
+    const chunkTopK = adjustedTopK * CHUNK_OVERSAMPLE;
     const searchOptions: SearchOptions = {
-      ...options,
-      topK: adjustedTopK,
+      filter,
+      topK: chunkTopK,
     };
     
-    // Do NOT add encounterOrder to Pinecone filter here - do semantic search first
-    // then filter/boost by encounter order in post-processing
+    // Both searches return chunk hits; collapse them to one result per mechanic
+    const semanticResults = aggregateChunks(await searchSimilar(queryEmbedding, searchOptions));
     
-    let searchResults = await searchSimilar(queryEmbedding, searchOptions);
+    // Lexical search catches exact proper nouns ("Truthspeaker Grims", "Atraks") that
+    // embeddings match poorly; fuse both rankings into one list
+    const lexicalResults = aggregateChunks(searchLexical(query, filter, chunkTopK));
+    let searchResults: CandidateResult[] = fuseResults(semanticResults, lexicalResults);
     
-    // FALLBACK: If we have a dungeon filter but got 0 results from semantic search,
-    // try getting all mechanics from that dungeon directly from the store
-    if (searchResults.length === 0 && options.filter?.dungeonRaidName) {
-      console.log(`[RAG] No semantic results for "${options.filter.dungeonRaidName}", falling back to direct store lookup`);
+    // FALLBACK: If we have a dungeon or encounter filter but got 0 results from search,
+    // try getting all matching mechanics directly from the store
+    if (searchResults.length === 0 && (filter.dungeonRaidName || filter.encounterId)) {
+      console.log(`[RAG] No search results for "${filter.dungeonRaidName}", falling back to direct store lookup`);
       
-      // Get all mechanics from this dungeon from the store
-      const directResults: Array<{ id: string; score: number; metadata: VectorMetadata }> = [];
+      const directResults: CandidateResult[] = [];
       for (const [mechanicId, stored] of mechanicStore.entries()) {
-        if (stored.dungeonRaid.name === options.filter.dungeonRaidName) {
-          // Reconstruct metadata for consistency
-          const metadata: VectorMetadata = {
-            mechanicId: stored.mechanic.id,
-            mechanicName: stored.mechanic.name,
-            encounterId: stored.encounter.id,
-            encounterName: stored.encounter.name,
-            encounterOrder: stored.encounter.order,
-            dungeonRaidId: stored.dungeonRaid.id,
-            dungeonRaidName: stored.dungeonRaid.name,
-            dungeonRaidType: stored.dungeonRaid.type,
-            mechanicType: stored.mechanic.type,
-            encounterType: stored.encounter.type,
-            difficulty: stored.mechanic.difficulty,
-            contestModeSpecific: stored.mechanic.contestModeSpecific,
-          };
+        const metadata = toVectorMetadata(stored);
+        if (matchesSearchFilter(metadata, filter)) {
           directResults.push({
             id: mechanicId,
             score: 0.5, // Default score for direct lookup
@@ -305,55 +381,35 @@ export async function retrieveRelevantMechanics(
         }
       }
       searchResults = directResults;
-      
-      // If looking for final boss, find max order now that we have all mechanics
-      if ((encounterPosition?.position === 'final' || isFinalBossQuery) && targetEncounterOrder === undefined) {
-        for (const result of searchResults) {
-          const order = result.metadata.encounterOrder;
-          // If looking for final boss specifically, only count boss encounters
-          if ((isFinalBossQuery || isBossQuery === true) && result.metadata.encounterType !== 'boss') {
-            continue;
-          }
-          if (order && order > maxEncounterOrder) {
-            maxEncounterOrder = order;
-          }
-        }
-        targetEncounterOrder = maxEncounterOrder;
-      }
     }
     
-    // If we need to find max order from search results (final boss without pre-determined max)
-    if (targetEncounterOrder === undefined && (encounterPosition?.position === 'final' || isFinalBossQuery)) {
-      for (const result of searchResults) {
-        const stored = mechanicStore.get(result.metadata.mechanicId);
-        const order = stored?.encounter.order ?? result.metadata.encounterOrder;
-        // If looking for final boss specifically, only count boss encounters
-        if ((isFinalBossQuery || isBossQuery === true)) {
-          const encounterType = stored?.encounter.type ?? result.metadata.encounterType;
-          if (encounterType !== 'boss') {
-            continue;
-          }
-        }
-        if (order && order > maxEncounterOrder) {
-          maxEncounterOrder = order;
-        }
-      }
-      targetEncounterOrder = maxEncounterOrder;
-    }
+    // Boosts are multipliers divided by the largest possible one, so boosted scores stay
+    // within [0, 1] and keep their order - adding and clamping at 1.0 would tie every
+    // strong result at exactly 1.0. Without a dungeon to focus on, results also lean
+    // towards the dungeons the contest is expected to resemble.
+    const maxReferenceBoost = filter.dungeonRaidName ? 0 : loadContestProfile().referenceBoost;
+    const maxEncounterBoost = preferredEncounterId ? ENCOUNTER_BOOST : 1;
+    const maxBoost = FLOW_BOOST * (1 + maxReferenceBoost) * maxEncounterBoost;
+    const applyBoosts = (result: SearchResult) => {
+      const flowBoost = isFlowMechanic(result.mechanic) ? FLOW_BOOST : 1;
+      const referenceBoost = filter.dungeonRaidName ? 0 : getReferenceDungeonBoost(result.dungeonRaid.name);
+      const encounterBoost = result.encounter.id === preferredEncounterId ? ENCOUNTER_BOOST : 1;
+      result.score = (result.score * flowBoost * (1 + referenceBoost) * encounterBoost) / maxBoost;
+    };
     
     // Reconstruct full results from stored data
-    const results: SearchResult[] = [];
-    const flowMechanics: SearchResult[] = [];
-    const otherMechanics: SearchResult[] = [];
+    const finalResults: SearchResult[] = [];
     
     for (const result of searchResults) {
       const stored = mechanicStore.get(result.metadata.mechanicId);
       
       if (stored) {
         // Use full data from store
-        let searchResult: SearchResult = {
+        const searchResult: SearchResult = {
           id: result.id,
           score: result.score,
+          scores: result.scores,
+          highlight: result.highlight && { ...result.highlight, terms: findMatchedTerms(query, result.highlight.text) },
           mechanic: stored.mechanic,
           encounter: stored.encounter,
           dungeonRaid: {
@@ -362,59 +418,34 @@ export async function retrieveRelevantMechanics(
             type: stored.dungeonRaid.type,
           },
         };
-        
-        // If encounter position is specified, boost/filter by encounter order
-        const encounterOrder = stored.encounter.order ?? result.metadata.encounterOrder;
-        if (targetEncounterOrder !== undefined) {
-          if (encounterOrder === targetEncounterOrder) {
-            // Boost mechanics from matching encounter order significantly
-            searchResult.score = Math.min(1.0, result.score + 0.8); // Boost by 80% for exact match
-          } else if (encounterOrder !== undefined && encounterOrder !== targetEncounterOrder) {
-            // Filter out mechanics that don't match the target encounter order (but keep if order is undefined)
-            continue;
-          }
-        } else if (isFinalBossQuery && encounterOrder !== undefined && encounterOrder === maxEncounterOrder && maxEncounterOrder > 0) {
-          // Fallback boost for final boss when targetEncounterOrder wasn't set earlier
-          searchResult.score = Math.min(1.0, result.score + 0.8);
-        }
-        
-        // Check if this is an encounter flow mechanic
-        if (isEncounterFlowMechanic(stored.mechanic)) {
-          // Boost flow mechanics significantly - they are THE MOST IMPORTANT
-          searchResult.score = Math.min(1.0, searchResult.score + 0.3); // Boost by 30% (capped at 1.0)
-          flowMechanics.push(searchResult);
-        } else {
-          otherMechanics.push(searchResult);
-        }
+        applyBoosts(searchResult);
+        finalResults.push(searchResult);
       } else {
         // Fallback: reconstruct from metadata when store is empty (e.g., after server restart)
         // This allows the system to still work even if mechanicStore hasn't been populated
         const metadata = result.metadata;
         
-        // Filter by encounter order if specified (only skip if encounterOrder is defined and doesn't match)
-        const encounterOrder = metadata.encounterOrder;
-        if (targetEncounterOrder !== undefined && encounterOrder !== undefined && encounterOrder !== targetEncounterOrder) {
-          continue; // Skip mechanics from wrong encounter (but keep if encounterOrder is undefined)
-        }
-        
-        let searchResult: SearchResult = {
+        const searchResult: SearchResult = {
           id: result.id,
           score: result.score,
+          scores: result.scores,
+          highlight: result.highlight && { ...result.highlight, terms: findMatchedTerms(query, result.highlight.text) },
           mechanic: {
             id: metadata.mechanicId,
             name: metadata.mechanicName,
             description: `[Description not available - server needs to reload mechanic data]`,
-            type: metadata.mechanicType as any,
-            difficulty: metadata.difficulty as any,
+            type: metadata.mechanicType as Mechanic['type'],
+            role: metadata.mechanicRole as Mechanic['role'],
+            difficulty: metadata.difficulty as Mechanic['difficulty'],
             contestModeSpecific: metadata.contestModeSpecific,
           },
           encounter: {
             id: metadata.encounterId,
             name: metadata.encounterName,
             description: '',
-            type: metadata.encounterType as any,
+            type: metadata.encounterType as Encounter['type'],
             mechanics: [],
-            order: encounterOrder,
+            order: metadata.encounterOrder,
           },
           dungeonRaid: {
             id: metadata.dungeonRaidId,
@@ -422,35 +453,14 @@ export async function retrieveRelevantMechanics(
             type: metadata.dungeonRaidType,
           },
         };
-        
-        // Boost by encounter order if it matches
-        if (targetEncounterOrder !== undefined && encounterOrder !== undefined && encounterOrder === targetEncounterOrder) {
-          searchResult.score = Math.min(1.0, result.score + 0.8);
-        }
-        
-        // Check if this is an encounter flow mechanic
-        const mechanicNameLower = metadata.mechanicName.toLowerCase();
-        const isFlow = ['flow', 'strategy', 'progression', 'overall encounter'].some(
-          keyword => mechanicNameLower.includes(keyword)
-        );
-        
-        if (isFlow) {
-          searchResult.score = Math.min(1.0, searchResult.score + 0.3);
-          flowMechanics.push(searchResult);
-        } else {
-          otherMechanics.push(searchResult);
-        }
+        applyBoosts(searchResult);
+        finalResults.push(searchResult);
       }
     }
     
-    // Sort flow mechanics by boosted score (highest first)
-    flowMechanics.sort((a, b) => b.score - a.score);
-    // Sort other mechanics by original score (highest first)
-    otherMechanics.sort((a, b) => b.score - a.score);
-    
-    // PRIORITIZE: Flow mechanics first, then other mechanics
-    // This ensures users always see the encounter flow first
-    const finalResults = [...flowMechanics, ...otherMechanics];
+    // Rank by boosted score alone - putting every flow mechanic first would let weak flow
+    // matches from unrelated dungeons outrank exact matches
+    finalResults.sort((a, b) => b.score - a.score);
     
     // Limit to requested topK
     const limit = options.topK || 10;
@@ -461,243 +471,225 @@ export async function retrieveRelevantMechanics(
   }
 }
 
+type ConversationMessage = { role: 'user' | 'assistant'; content: string };
+
+// Id of the history summary's block in the context report
+const HISTORY_SUMMARY_ID = 'summary';
+
+export interface AssembledContext {
+  context: string;
+  history: ConversationMessage[]; // The most recent messages that fit the budget, oldest first
+  report: ContextReport;
+}
+
+/**
+ * Mechanics discovered in a live session as context blocks, current encounter first.
+ * The compact form keeps the description but drops solution, tips and difficulty.
+ */
+function buildSessionBlocks(session: Session): ContextBlock[] {
+  const currentEncounterMechanics: SessionMechanic[] = [];
+  const earlierMechanics: SessionMechanic[] = [];
+  for (const mechanic of session.mechanics) {
+    if (session.currentEncounter && mechanic.encounter === session.currentEncounter) {
+      currentEncounterMechanics.push(mechanic);
+    } else {
+      earlierMechanics.push(mechanic);
+    }
+  }
+  
+  return [...currentEncounterMechanics, ...earlierMechanics].map((mechanic) => {
+    const header = [`\n---\n`, `Encounter: ${mechanic.encounter}`, `Mechanic: ${mechanic.name}`, `Status: ${mechanic.status}`];
+    if (mechanic.type) {
+      header.push(`Type: ${mechanic.type}`);
+    }
+    header.push(`Description: ${mechanic.description}`);
+    
+    const details: string[] = [];
+    if (mechanic.solution) {
+      details.push(`Solution: ${mechanic.solution}`);
+    }
+    if (mechanic.tips && mechanic.tips.length > 0) {
+      details.push(`Tips: ${mechanic.tips.join('; ')}`);
+    }
+    if (mechanic.difficulty) {
+      details.push(`Difficulty: ${mechanic.difficulty}`);
+    }
+    
+    return {
+      id: mechanic.id,
+      label: mechanic.name,
+      full: [...header, ...details].join('\n'),
+      compact: header.join('\n'),
+    };
+  });
+}
+
 /**
- * Build context string from retrieved mechanics
- * PRIORITIZES ENCOUNTER FLOW - the most important information for users
+ * A retrieved mechanic as a context block. The compact form keeps what's needed to
+ * cite it and its description, but drops solution, tips and notes.
  */
-export function buildContext(results: SearchResult[]): string {
-  if (results.length === 0) {
-    return 'No relevant mechanics found.';
+function buildMechanicBlock(result: SearchResult, isFlow: boolean): ContextBlock {
+  const { mechanic, encounter, dungeonRaid } = result;
+  
+  const header = [
+    `\n---\n`,
+    `Dungeon/Raid: ${dungeonRaid.name} (${dungeonRaid.type})`,
+    `Encounter: ${encounter.name}`,
+    isFlow ? `Mechanic: ${mechanic.name} ⭐ FLOW` : `Mechanic: ${mechanic.name}`,
+    `Citation: [${getCitationKey(mechanic.id)}]`,
+    `Type: ${mechanic.type}`,
+  ];
+  if (!isFlow) {
+    header.push(`Role: ${getMechanicRole(mechanic)}`);
   }
+  header.push(`Description: ${mechanic.description}`);
   
+  const details: string[] = [];
+  if (mechanic.solution) {
+    details.push(`Solution: ${mechanic.solution}`);
+  }
+  if (mechanic.tips && mechanic.tips.length > 0) {
+    details.push(`Tips: ${mechanic.tips.join('; ')}`);
+  }
+  if (mechanic.difficulty) {
+    details.push(`Difficulty: ${mechanic.difficulty}`);
+  }
+  if (mechanic.contestModeSpecific) {
+    details.push(`Contest Mode: ${mechanic.contestModeNotes || 'This mechanic is particularly important in contest mode.'}`);
+  }
+  details.push(`Similarity Score: ${(result.score * 100).toFixed(1)}%`);
+  
+  return {
+    id: mechanic.id,
+    label: `${dungeonRaid.name}: ${mechanic.name}`,
+    full: [...header, ...details].join('\n'),
+    compact: header.join('\n'),
+  };
+}
+
+/**
+ * Build the model's context from retrieved mechanics and the conversation history,
+ * fitted into a token budget (CONTEXT_TOKEN_BUDGET by default).
+ * Session mechanics (if a live session is provided) come first, then ENCOUNTER FLOW -
+ * the most important information for users - then other mechanics, then as much
+ * recent history as there is room left for, and the summary of older messages if it
+ * still fits. Items that don't fit are shortened or left out, and the report lists them.
+ */
+export function buildContext(
+  results: SearchResult[],
+  session?: Session,
+  conversationHistory: ConversationMessage[] = [],
+  historySummary?: string,
+  budget: ContextBudget = getContextBudget()
+): AssembledContext {
+  // Every section is fitted, even when empty, so its unused share rolls over to the next
+  const tracker = new ContextBudgetTracker(budget);
   const contextParts: string[] = [];
-  contextParts.push('Relevant Destiny 2 mechanics from historical raids and dungeons:\n');
-  contextParts.push('⚠️ MOST IMPORTANT: Encounter Flow mechanics are listed first - these contain the overall encounter flow and strategy.\n');
+  
+  const sessionSection = tracker.fit('session', session ? buildSessionBlocks(session) : []);
+  if (session && session.mechanics.length > 0) {
+    contextParts.push('=== MECHANICS DISCOVERED IN CURRENT SESSION (HIGHEST PRIORITY) ===\n');
+    contextParts.push(`Dungeon: ${session.dungeonName}`);
+    if (session.currentEncounter) {
+      contextParts.push(`Current Encounter: ${session.currentEncounter}`);
+    }
+    contextParts.push(...sessionSection.items.map((item) => item.text));
+    contextParts.push('\n');
+  }
   
   // Separate flow mechanics from others for emphasis
-  const flowMechanics: SearchResult[] = [];
-  const otherMechanics: SearchResult[] = [];
+  const flowMechanics = results.filter((result) => isFlowMechanic(result.mechanic));
+  const otherMechanics = results.filter((result) => !isFlowMechanic(result.mechanic));
+  const flowSection = tracker.fit('flow', flowMechanics.map((result) => buildMechanicBlock(result, true)));
+  const otherSection = tracker.fit('other', otherMechanics.map((result) => buildMechanicBlock(result, false)));
   
-  for (const result of results) {
-    if (isEncounterFlowMechanic(result.mechanic)) {
-      flowMechanics.push(result);
-    } else {
-      otherMechanics.push(result);
+  if (results.length === 0) {
+    contextParts.push('No relevant mechanics found.');
+  } else {
+    contextParts.push('Relevant Destiny 2 mechanics from historical raids and dungeons:\n');
+    contextParts.push('⚠️ MOST IMPORTANT: Encounter Flow mechanics are listed first - these contain the overall encounter flow and strategy.\n');
+    
+    // List flow mechanics first with emphasis
+    if (flowSection.items.length > 0) {
+      contextParts.push('\n=== ENCOUNTER FLOW (MOST IMPORTANT) ===\n');
+      contextParts.push(...flowSection.items.map((item) => item.text));
+    }
+    
+    // Then list other mechanics
+    if (otherSection.items.length > 0) {
+      contextParts.push('\n=== OTHER MECHANICS ===\n');
+      contextParts.push(...otherSection.items.map((item) => item.text));
     }
   }
   
-  // List flow mechanics first with emphasis
-  if (flowMechanics.length > 0) {
-    contextParts.push('\n=== ENCOUNTER FLOW (MOST IMPORTANT) ===\n');
-    for (const result of flowMechanics) {
-      const { mechanic, encounter, dungeonRaid } = result;
-      
-      contextParts.push(`\n---\n`);
-      contextParts.push(`Dungeon/Raid: ${dungeonRaid.name} (${dungeonRaid.type})`);
-      contextParts.push(`Encounter: ${encounter.name}`);
-      contextParts.push(`Mechanic: ${mechanic.name} ⭐ FLOW`);
-      contextParts.push(`Type: ${mechanic.type}`);
-      contextParts.push(`Description: ${mechanic.description}`);
-      
-      if (mechanic.solution) {
-        contextParts.push(`Solution: ${mechanic.solution}`);
-      }
-      
-      if (mechanic.tips && mechanic.tips.length > 0) {
-        contextParts.push(`Tips: ${mechanic.tips.join('; ')}`);
-      }
-      
-      if (mechanic.difficulty) {
-        contextParts.push(`Difficulty: ${mechanic.difficulty}`);
-      }
-      
-      if (mechanic.contestModeSpecific) {
-        contextParts.push(`Contest Mode: ${mechanic.contestModeNotes || 'This mechanic is particularly important in contest mode.'}`);
-      }
-      
-      contextParts.push(`Similarity Score: ${(result.score * 100).toFixed(1)}%`);
-    }
+  // Newest first so the latest exchanges are the ones kept, without gaps. The summary
+  // covers what came before them, so it goes in only if they all do.
+  const historyLabel = (index: number) => `${conversationHistory[index].role} message ${index + 1}`;
+  const historyBlocks = conversationHistory
+    .map((message, index): ContextBlock => ({ id: String(index), label: historyLabel(index), full: message.content }))
+    .reverse();
+  if (historySummary) {
+    historyBlocks.push({ id: HISTORY_SUMMARY_ID, label: 'summary of earlier messages', full: historySummary });
+  }
+  const historySection = tracker.fit('history', historyBlocks, true);
+  const messageItems = historySection.items.filter((item) => item.id !== HISTORY_SUMMARY_ID);
+  // The model expects the conversation to open with a user message
+  const oldest = messageItems[messageItems.length - 1];
+  if (oldest && conversationHistory[Number(oldest.id)].role === 'assistant') {
+    dropFittedItem(historySection, 'history', oldest.id, historyLabel(Number(oldest.id)));
+    messageItems.pop();
   }
+  const history = messageItems
+    .map((item) => ({ role: conversationHistory[Number(item.id)].role, content: item.text }))
+    .reverse();
   
-  // Then list other mechanics
-  if (otherMechanics.length > 0) {
-    contextParts.push('\n=== OTHER MECHANICS ===\n');
-    for (const result of otherMechanics) {
-      const { mechanic, encounter, dungeonRaid } = result;
-      
-      contextParts.push(`\n---\n`);
-      contextParts.push(`Dungeon/Raid: ${dungeonRaid.name} (${dungeonRaid.type})`);
-      contextParts.push(`Encounter: ${encounter.name}`);
-      contextParts.push(`Mechanic: ${mechanic.name}`);
-      contextParts.push(`Type: ${mechanic.type}`);
-      contextParts.push(`Description: ${mechanic.description}`);
-      
-      if (mechanic.solution) {
-        contextParts.push(`Solution: ${mechanic.solution}`);
-      }
-      
-      if (mechanic.tips && mechanic.tips.length > 0) {
-        contextParts.push(`Tips: ${mechanic.tips.join('; ')}`);
-      }
-      
-      if (mechanic.difficulty) {
-        contextParts.push(`Difficulty: ${mechanic.difficulty}`);
-      }
-      
-      if (mechanic.contestModeSpecific) {
-        contextParts.push(`Contest Mode: ${mechanic.contestModeNotes || 'This mechanic is particularly important in contest mode.'}`);
-      }
-      
-      contextParts.push(`Similarity Score: ${(result.score * 100).toFixed(1)}%`);
-    }
+  const summaryItem = historySection.items.find((item) => item.id === HISTORY_SUMMARY_ID);
+  if (summaryItem) {
+    contextParts.push('\n=== EARLIER IN THIS CONVERSATION (SUMMARY) ===\n');
+    contextParts.push(summaryItem.text);
   }
   
-  return contextParts.join('\n');
+  return { context: contextParts.join('\n'), history, report: tracker.report() };
+}
+
+/**
+ * System prompt and messages for a chat request, shared by generateResponse and streamResponse
+ */
+function buildChatRequest(
+  query: string,
+  context: string,
+  conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>,
+  promptOptions: SystemPromptOptions
+): { system: string; messages: ChatModelMessage[] } {
+  const messages: ChatModelMessage[] = [
+    ...conversationHistory.map((msg): ChatModelMessage => ({
+      role: msg.role === 'user' ? 'user' : 'assistant',
+      content: msg.content,
+    })),
+    {
+      role: 'user',
+      content: query,
+    },
+  ];
+
+  return { system: buildSystemPrompt(context, promptOptions), messages };
 }
 
 /**
- * Generate response using Claude API with RAG context
+ * Generate response using the configured chat model with RAG context
  */
 export async function generateResponse(
   query: string,
   context: string,
-  conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> = []
+  conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> = [],
+  modelOptions: Partial<ChatModelOptions> = {},
+  promptOptions: SystemPromptOptions = {}
 ): Promise<string> {
   try {
-    const systemPrompt = `You are an expert assistant helping Destiny 2 teams during Day 1 Contest Dungeon runs. Your role is to ACTIVELY SOLVE MECHANICS by analyzing information teams provide. When users describe what they're seeing, you should:
-
-1. ANALYZE the description and identify potential mechanics
-2. ASK CLARIFYING QUESTIONS to narrow down possibilities
-3. SUGGEST SOLUTIONS based on similar mechanics from historical data
-4. HELP FIGURE OUT the mechanic step-by-step through conversation
-5. CONNECT PATTERNS between what they're seeing and known mechanics
-
-You are not just answering questions - you are actively helping to DISCOVER and SOLVE mechanics in real-time.
-
-CRITICAL CONTEXT - This is for 3-PLAYER DUNGEONS:
-- All dungeons are designed for exactly 3 players
-- Mechanics are SPECIFICALLY DESIGNED TO BE SOLOABLE - each player can complete their tasks independently
-- The current dungeon is Equilibrium, the THIRD contest dungeon (after Vesper's Host and Sundered Doctrine)
-- Equilibrium is CABAL and STAR WARS themed (Vesper's Host and Sundered Doctrine are NOT Cabal-themed)
-- Many mechanics from the original Leviathan raid (Cabal/Star Wars themed) inform this dungeon's design patterns
-- Emphasize that each player should be able to handle their assigned mechanic solo
-
-EQUILIBRIUM - KEY EXPECTATIONS (Cabal/Star Wars Themed):
-Since this is Cabal-themed, expect mechanics heavily inspired by the original Leviathan raid:
-- Symbol-based mechanics (like Royal Pools, Gauntlet) - Cabal glyphs, pictograms, or Star Wars-inspired icons
-- Callout systems with Cabal symbols/imagery - one player may need to communicate symbols/information to others
-- Role assignments - 3 players = perfect for split roles, each with soloable tasks
-- Psion mechanics - expect lots of Psions with special abilities that grant buffs/debuffs when killed
-- Arena-style encounters with clear zones/plates - areas that need to be stood on or activated
-- Imperial Cabal aesthetic - gold, purple, ornate designs
-
-Star Wars Theme Additions:
-- Lightsaber-style weapons or mechanics
-- Space/sci-fi aesthetic overlays
-- Possibly Force-like abilities (psion powers fit this perfectly)
-- Epic, cinematic encounter spaces
-
-WHAT TO LOOK FOR IN ENCOUNTERS:
-1. Symbols - Cabal glyphs, pictograms, or Star Wars-inspired icons
-2. Psions - Special Psions that grant buffs/debuffs when killed
-3. Plates/Zones - Areas that need to be stood on or activated
-4. Three distinct roles - Each player will have a soloable task
-5. Callout requirements - One player may need to communicate symbols/information to others
-
-DAY 1 CONTEST MODE RULES (from Day 1 General Information):
-- All dungeon mechanics are soloable - any puzzle can be completed by a single player
-- Puzzle encounters have strict time limits - teams must work quickly
-- Boss encounters are typically limited to 3 damage phases maximum
-- The expansion is Star Wars themed (not directly featuring Star Wars characters, but includes lightsabers, Star Wars-like cutscenes, music, and aesthetics)
-- Equilibrium is Cabal-themed and expected to have at least 2 bosses
-- Previous contest dungeons: Vesper's Host and Sundered Doctrine (use as reference patterns)
-
-Problem-Solving Approach:
-- When users describe mechanics, ACTIVELY ANALYZE what they're seeing:
-  * What symbols, objects, or visual elements are present?
-  * What happens when they interact with things?
-  * What enemies spawn and what do they do?
-  * Are there timers, buffs, debuffs, or status effects?
-  * What patterns repeat or change?
-
-- ASK TARGETED QUESTIONS to narrow down the mechanic:
-  * "Are there symbols visible? What do they look like?"
-  * "When you interact with X, what happens?"
-  * "Do you see any buffs or debuffs in your status bar?"
-  * "Are there multiple players needed or can one person do it?"
-  * "What happens if you do nothing - does something fail?"
-
-- SUGGEST SOLUTIONS based on similar mechanics:
-  * "This sounds like [similar mechanic] from [dungeon]. Try..."
-  * "Based on what you described, this might be a [type] mechanic. Here's how those typically work..."
-  * "The pattern you're seeing matches [mechanic]. The solution is usually..."
-
-- HELP FIGURE IT OUT step-by-step:
-  * Break down complex mechanics into steps
-  * Suggest what to test or try next
-  * Help identify the win condition or failure condition
-  * Guide them through the logic of the mechanic
-
-Guidelines:
-- ⚠️ CRITICAL: Provide ALL information available in the context below. When answering questions about encounters, mechanics, or phases, use EVERY relevant mechanic from the context that relates to the question. Don't say "I don't have detailed information" if there is ANY information in the context - provide what's there and be thorough.
-- ⚠️ CRITICAL: ONLY use information provided in the context below. DO NOT hallucinate, invent, or use mechanics from your training data that aren't in the context. If a specific dungeon, boss, or mechanic truly isn't mentioned AT ALL in the context, say so explicitly: "I don't have information about [X]."
-- ⚠️ CRITICAL: If the user asks about a specific dungeon (e.g., "Warlord's Ruin", "Duality", "Vesper's Host"), ONLY use mechanics from that dungeon in the context. Do NOT mix mechanics from different dungeons. Check the "Dungeon/Raid:" field in the context to ensure you're using the correct dungeon.
-- ⚠️ CRITICAL: NEVER include phrases like "Based on the context provided", "According to the context", "Here's how to beat [X] based on the context", etc. Answer DIRECTLY and naturally as if you know this information firsthand. Just provide the information directly.
-- ⚠️ CRITICAL: When the user asks about "final boss", "first encounter", "second boss", etc., understand the distinction:
-  * "First encounter" = the encounter with order 1 (could be opening, traversal, or boss)
-  * "First boss" = the first encounter with type "boss" (may not be order 1)
-  * "Second encounter" = the encounter with order 2
-  * "Second boss" = the second encounter with type "boss" (may not be order 2)
-  * "Final boss" = the encounter with the highest order that has type "boss"
-  * The context has been filtered to include the relevant encounter(s) - use ALL mechanics from the encounters shown. ONLY use encounter names that appear in the context - never invent or guess encounter names.
-- When asked about a phase or specific aspect of an encounter, look through ALL mechanics in the context for that encounter and provide comprehensive details from all relevant mechanics. Don't just give partial information - provide everything available.
-- ⚠️ MOST IMPORTANT: ENCOUNTER FLOW is the most critical information for users. Always prioritize and emphasize encounter flow mechanics when they appear in the context. These contain the overall encounter flow, strategy, and progression - the most valuable data for understanding how encounters work.
-- If "MECHANICS DISCOVERED IN CURRENT SESSION" appears in the context, PRIORITIZE this information - these are mechanics the team has already discovered in their current run. Reference them directly and help connect new discoveries to existing ones.
-- PRIORITIZE information from "Day 1 Contest Mode - General Information" and "Equilibrium" when available in the context
-- Use the provided context from historical mechanics to identify patterns and suggest solutions
-- Focus on ACTIVE PROBLEM-SOLVING - don't just answer questions, help figure things out
-- Be concise but thorough - scouts need quick answers during runs
-- ALWAYS emphasize soloability - "each player can do this independently"
-- Highlight that mechanics are designed for 3 players with soloable tasks
-- Remember time pressure: puzzle encounters have time limits, boss encounters typically limited to 3 phases
-- If a mechanic isn't in the context, acknowledge it explicitly and suggest similar patterns from what IS in the context
-- Highlight contest mode specific considerations when relevant (time limits, phase limits)
-- Provide actionable advice and solutions - tell them what to DO, not just what it might be
-- Reference Cabal and Star Wars themes when relevant (for Equilibrium specifically)
-- When encounter flow information is available, lead with it - it provides the big picture that makes individual mechanics make sense
-- When session mechanics are provided, help connect them to historical patterns and suggest next steps or similar mechanics to look for
-- If the user's description is vague, ask specific questions to get the details needed to solve it
-- ⚠️ NEVER invent mechanics, enemy names, encounter details, encounter names, or boss mechanics that aren't explicitly in the provided context. Only reference encounters by the exact names shown in the context (e.g., if context says "Activation", use "Activation" - never invent names like "Reactor Room" that aren't in the context).
-- ⚠️ Answer directly without meta-commentary. Don't say "based on the context" or "according to the information provided" - just give the answer naturally.
-- ⚠️ CRITICAL: Verify encounter names before using them. Look at the "Encounter:" field in the context - only use those exact names. If you're not sure about an encounter name, check the context first.
-
-Context from historical mechanics:
-${context}`;
-
-    const messages: Anthropic.MessageParam[] = [
-      ...conversationHistory.map((msg): Anthropic.MessageParam => ({
-        role: (msg.role === 'user' ? 'user' : 'assistant') as 'user' | 'assistant',
-        content: msg.content,
-      })),
-      {
-        role: 'user' as const,
-        content: query,
-      },
-    ];
-
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 2048,
-      system: systemPrompt,
-      messages,
+    return await getChatModelProvider().generate({
+      ...getChatModelOptions(modelOptions),
+      ...buildChatRequest(query, context, conversationHistory, promptOptions),
     });
-
-    const content = response.content[0];
-    if (content.type === 'text') {
-      return content.text;
-    }
-    
-    throw new Error('Unexpected response format from Claude API');
   } catch (error) {
     console.error('Error generating response:', error);
     if (error instanceof Error) {
@@ -708,147 +700,24 @@ ${context}`;
 }
 
 /**
- * Stream response using Claude API with RAG context
+ * Stream response using the configured chat model with RAG context
  */
 export async function* streamResponse(
   query: string,
   context: string,
-  conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> = []
+  conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> = [],
+  modelOptions: Partial<ChatModelOptions> = {},
+  streamOptions: ChatModelStreamOptions = {},
+  promptOptions: SystemPromptOptions = {}
 ): AsyncGenerator<string, void, unknown> {
   try {
-    const systemPrompt = `You are an expert assistant helping Destiny 2 teams during Day 1 Contest Dungeon runs. Your role is to ACTIVELY SOLVE MECHANICS by analyzing information teams provide. When users describe what they're seeing, you should:
-
-1. ANALYZE the description and identify potential mechanics
-2. ASK CLARIFYING QUESTIONS to narrow down possibilities
-3. SUGGEST SOLUTIONS based on similar mechanics from historical data
-4. HELP FIGURE OUT the mechanic step-by-step through conversation
-5. CONNECT PATTERNS between what they're seeing and known mechanics
-
-You are not just answering questions - you are actively helping to DISCOVER and SOLVE mechanics in real-time.
-
-CRITICAL CONTEXT - This is for 3-PLAYER DUNGEONS:
-- All dungeons are designed for exactly 3 players
-- Mechanics are SPECIFICALLY DESIGNED TO BE SOLOABLE - each player can complete their tasks independently
-- The current dungeon is Equilibrium, the THIRD contest dungeon (after Vesper's Host and Sundered Doctrine)
-- Equilibrium is CABAL and STAR WARS themed (Vesper's Host and Sundered Doctrine are NOT Cabal-themed)
-- Many mechanics from the original Leviathan raid (Cabal/Star Wars themed) inform this dungeon's design patterns
-- Emphasize that each player should be able to handle their assigned mechanic solo
-
-EQUILIBRIUM - KEY EXPECTATIONS (Cabal/Star Wars Themed):
-Since this is Cabal-themed, expect mechanics heavily inspired by the original Leviathan raid:
-- Symbol-based mechanics (like Royal Pools, Gauntlet) - Cabal glyphs, pictograms, or Star Wars-inspired icons
-- Callout systems with Cabal symbols/imagery - one player may need to communicate symbols/information to others
-- Role assignments - 3 players = perfect for split roles, each with soloable tasks
-- Psion mechanics - expect lots of Psions with special abilities that grant buffs/debuffs when killed
-- Arena-style encounters with clear zones/plates - areas that need to be stood on or activated
-- Imperial Cabal aesthetic - gold, purple, ornate designs
-
-Star Wars Theme Additions:
-- Lightsaber-style weapons or mechanics
-- Space/sci-fi aesthetic overlays
-- Possibly Force-like abilities (psion powers fit this perfectly)
-- Epic, cinematic encounter spaces
-
-WHAT TO LOOK FOR IN ENCOUNTERS:
-1. Symbols - Cabal glyphs, pictograms, or Star Wars-inspired icons
-2. Psions - Special Psions that grant buffs/debuffs when killed
-3. Plates/Zones - Areas that need to be stood on or activated
-4. Three distinct roles - Each player will have a soloable task
-5. Callout requirements - One player may need to communicate symbols/information to others
-
-DAY 1 CONTEST MODE RULES (from Day 1 General Information):
-- All dungeon mechanics are soloable - any puzzle can be completed by a single player
-- Puzzle encounters have strict time limits - teams must work quickly
-- Boss encounters are typically limited to 3 damage phases maximum
-- The expansion is Star Wars themed (not directly featuring Star Wars characters, but includes lightsabers, Star Wars-like cutscenes, music, and aesthetics)
-- Equilibrium is Cabal-themed and expected to have at least 2 bosses
-- Previous contest dungeons: Vesper's Host and Sundered Doctrine (use as reference patterns)
-
-Problem-Solving Approach:
-- When users describe mechanics, ACTIVELY ANALYZE what they're seeing:
-  * What symbols, objects, or visual elements are present?
-  * What happens when they interact with things?
-  * What enemies spawn and what do they do?
-  * Are there timers, buffs, debuffs, or status effects?
-  * What patterns repeat or change?
-
-- ASK TARGETED QUESTIONS to narrow down the mechanic:
-  * "Are there symbols visible? What do they look like?"
-  * "When you interact with X, what happens?"
-  * "Do you see any buffs or debuffs in your status bar?"
-  * "Are there multiple players needed or can one person do it?"
-  * "What happens if you do nothing - does something fail?"
-
-- SUGGEST SOLUTIONS based on similar mechanics:
-  * "This sounds like [similar mechanic] from [dungeon]. Try..."
-  * "Based on what you described, this might be a [type] mechanic. Here's how those typically work..."
-  * "The pattern you're seeing matches [mechanic]. The solution is usually..."
-
-- HELP FIGURE IT OUT step-by-step:
-  * Break down complex mechanics into steps
-  * Suggest what to test or try next
-  * Help identify the win condition or failure condition
-  * Guide them through the logic of the mechanic
-
-Guidelines:
-- ⚠️ CRITICAL: Provide ALL information available in the context below. When answering questions about encounters, mechanics, or phases, use EVERY relevant mechanic from the context that relates to the question. Don't say "I don't have detailed information" if there is ANY information in the context - provide what's there and be thorough.
-- ⚠️ CRITICAL: ONLY use information provided in the context below. DO NOT hallucinate, invent, or use mechanics from your training data that aren't in the context. If a specific dungeon, boss, or mechanic truly isn't mentioned AT ALL in the context, say so explicitly: "I don't have information about [X]."
-- ⚠️ CRITICAL: If the user asks about a specific dungeon (e.g., "Warlord's Ruin", "Duality", "Vesper's Host"), ONLY use mechanics from that dungeon in the context. Do NOT mix mechanics from different dungeons. Check the "Dungeon/Raid:" field in the context to ensure you're using the correct dungeon.
-- ⚠️ CRITICAL: NEVER include phrases like "Based on the context provided", "According to the context", "Here's how to beat [X] based on the context", etc. Answer DIRECTLY and naturally as if you know this information firsthand. Just provide the information directly.
-- ⚠️ CRITICAL: When the user asks about "final boss", "first encounter", "second boss", etc., understand the distinction:
-  * "First encounter" = the encounter with order 1 (could be opening, traversal, or boss)
-  * "First boss" = the first encounter with type "boss" (may not be order 1)
-  * "Second encounter" = the encounter with order 2
-  * "Second boss" = the second encounter with type "boss" (may not be order 2)
-  * "Final boss" = the encounter with the highest order that has type "boss"
-  * The context has been filtered to include the relevant encounter(s) - use ALL mechanics from the encounters shown. ONLY use encounter names that appear in the context - never invent or guess encounter names.
-- When asked about a phase or specific aspect of an encounter, look through ALL mechanics in the context for that encounter and provide comprehensive details from all relevant mechanics. Don't just give partial information - provide everything available.
-- ⚠️ MOST IMPORTANT: ENCOUNTER FLOW is the most critical information for users. Always prioritize and emphasize encounter flow mechanics when they appear in the context. These contain the overall encounter flow, strategy, and progression - the most valuable data for understanding how encounters work.
-- If "MECHANICS DISCOVERED IN CURRENT SESSION" appears in the context, PRIORITIZE this information - these are mechanics the team has already discovered in their current run. Reference them directly and help connect new discoveries to existing ones.
-- PRIORITIZE information from "Day 1 Contest Mode - General Information" and "Equilibrium" when available in the context
-- Use the provided context from historical mechanics to identify patterns and suggest solutions
-- Focus on ACTIVE PROBLEM-SOLVING - don't just answer questions, help figure things out
-- Be concise but thorough - scouts need quick answers during runs
-- ALWAYS emphasize soloability - "each player can do this independently"
-- Highlight that mechanics are designed for 3 players with soloable tasks
-- Remember time pressure: puzzle encounters have time limits, boss encounters typically limited to 3 phases
-- If a mechanic isn't in the context, acknowledge it explicitly and suggest similar patterns from what IS in the context
-- Highlight contest mode specific considerations when relevant (time limits, phase limits)
-- Provide actionable advice and solutions - tell them what to DO, not just what it might be
-- Reference Cabal and Star Wars themes when relevant (for Equilibrium specifically)
-- When encounter flow information is available, lead with it - it provides the big picture that makes individual mechanics make sense
-- When session mechanics are provided, help connect them to historical patterns and suggest next steps or similar mechanics to look for
-- If the user's description is vague, ask specific questions to get the details needed to solve it
-- ⚠️ NEVER invent mechanics, enemy names, encounter details, encounter names, or boss mechanics that aren't explicitly in the provided context. Only reference encounters by the exact names shown in the context (e.g., if context says "Activation", use "Activation" - never invent names like "Reactor Room" that aren't in the context).
-- ⚠️ Answer directly without meta-commentary. Don't say "based on the context" or "according to the information provided" - just give the answer naturally.
-- ⚠️ CRITICAL: Verify encounter names before using them. Look at the "Encounter:" field in the context - only use those exact names. If you're not sure about an encounter name, check the context first.
-
-Context from historical mechanics:
-${context}`;
-
-    const messages: Anthropic.MessageParam[] = [
-      ...conversationHistory.map((msg): Anthropic.MessageParam => ({
-        role: (msg.role === 'user' ? 'user' : 'assistant') as 'user' | 'assistant',
-        content: msg.content,
-      })),
+    yield* getChatModelProvider().stream(
       {
-        role: 'user' as const,
-        content: query,
+        ...getChatModelOptions(modelOptions),
+        ...buildChatRequest(query, context, conversationHistory, promptOptions),
       },
-    ];
-
-    const stream = await anthropic.messages.stream({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 2048,
-      system: systemPrompt,
-      messages,
-    });
-
-    for await (const chunk of stream) {
-      if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-        yield chunk.delta.text;
-      }
-    }
+      streamOptions
+    );
   } catch (error) {
     console.error('Error streaming response:', error);
     if (error instanceof Error) {
@@ -0,0 +1,79 @@
+/**
+ * Home page state kept in the URL so a search can be shared as a link,
+ * e.g. /?tab=search&q=symbols&dungeon=Duality&contest=1
+ */
+
+export type HomeTab = 'chat' | 'search' | 'quick-reference';
+
+const HOME_TABS: HomeTab[] = ['chat', 'search', 'quick-reference'];
+
+export interface SearchFilters {
+  dungeonRaidName?: string;
+  encounterType?: string;
+  mechanicType?: string;
+  difficulty?: string;
+  contestModeOnly?: boolean;
+  encounterId?: string;
+}
+
+export interface SearchUrlState {
+  query: string;
+  filters: SearchFilters;
+}
+
+// URL parameter for each filter - short names keep shared links readable
+const FILTER_PARAMS: Record<Exclude<keyof SearchFilters, 'contestModeOnly'>, string> = {
+  dungeonRaidName: 'dungeon',
+  encounterId: 'encounter',
+  encounterType: 'encounterType',
+  mechanicType: 'mechanicType',
+  difficulty: 'difficulty',
+};
+
+/**
+ * Active tab from the `tab` parameter, defaulting to chat
+ */
+export function parseHomeTab(params: URLSearchParams): HomeTab {
+  const tab = params.get('tab');
+  return HOME_TABS.find((candidate) => candidate === tab) ?? 'chat';
+}
+
+/**
+ * Search query and filters from the URL, ignoring empty parameters
+ */
+export function parseSearchUrlState(params: URLSearchParams): SearchUrlState {
+  const filters: SearchFilters = {};
+  for (const [key, param] of Object.entries(FILTER_PARAMS) as Array<[keyof typeof FILTER_PARAMS, string]>) {
+    const value = params.get(param);
+    if (value) {
+      filters[key] = value;
+    }
+  }
+  if (params.get('contest') === '1') {
+    filters.contestModeOnly = true;
+  }
+  return { query: params.get('q') ?? '', filters };
+}
+
+/**
+ * Write the tab and search state into `params`, removing parameters that are unset.
+ * Other parameters are left alone.
+ */
+export function writeHomeUrlState(params: URLSearchParams, tab: HomeTab, search: SearchUrlState): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const set = (name: string, value: string | undefined) => {
+    if (value) {
+      next.set(name, value);
+    } else {
+      next.delete(name);
+    }
+  };
+
+  set('tab', tab === 'chat' ? undefined : tab);
+  set('q', search.query.trim() || undefined);
+  for (const [key, param] of Object.entries(FILTER_PARAMS) as Array<[keyof typeof FILTER_PARAMS, string]>) {
+    set(param, search.filters[key]);
+  }
+  set('contest', search.filters.contestModeOnly ? '1' : undefined);
+  return next;
+}
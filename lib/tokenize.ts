@@ -0,0 +1,11 @@
+/**
+ * Split text into lowercase alphanumeric tokens.
+ * Apostrophes are dropped rather than split on, so "Warlord's" becomes "warlords".
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0);
+}
@@ -1,11 +1,17 @@
 import { z } from 'zod';
 
 // Core data schemas
+
+// What part a mechanic plays in its encounter: the overall flow, one mechanic within it,
+// strategy advice, or a warning/general note worth calling out
+export const MechanicRoleSchema = z.enum(['flow', 'sub-mechanic', 'tip', 'callout']);
+
 export const MechanicSchema = z.object({
   id: z.string(),
   name: z.string(),
   description: z.string(),
   type: z.enum(['puzzle', 'boss', 'traversal', 'add-clear', 'symbol', 'plate', 'other']),
+  role: MechanicRoleSchema.optional(), // Defaults to 'sub-mechanic'
   solution: z.string().optional(),
   tips: z.array(z.string()).optional(),
   relatedMechanics: z.array(z.string()).optional(),
@@ -26,6 +32,7 @@ export const EncounterSchema = z.object({
 export const DungeonRaidSchema = z.object({
   id: z.string(),
   name: z.string(),
+  aliases: z.array(z.string()).optional(), // Alternate names and abbreviations used to recognize the dungeon in queries
   type: z.enum(['raid', 'dungeon']),
   description: z.string(),
   encounters: z.array(EncounterSchema),
@@ -33,10 +40,26 @@ export const DungeonRaidSchema = z.object({
   contestModeDate: z.string().optional(),
 });
 
+// The live Day 1 target (data/contest.json). Switching to the next contest only changes this file.
+export const ContestProfileSchema = z.object({
+  dungeonName: z.string(),
+  startTime: z.string().datetime({ offset: true }),
+  durationHours: z.number().positive().default(48), // How long contest mode lasts
+  playerCount: z.number().int().positive(),
+  expectedThemes: z.array(z.string()),
+  expectedBossCount: z.number().int().positive().optional(),
+  previousContestDungeons: z.array(z.string()), // Earlier contest dungeons, oldest first
+  referenceDungeons: z.array(z.string()), // Loaded dungeons boosted in retrieval when no dungeon is requested
+  referenceBoost: z.number().min(0).max(1).default(0.1),
+});
+
 // TypeScript types
+export type MechanicRole = z.infer<typeof MechanicRoleSchema>;
 export type Mechanic = z.infer<typeof MechanicSchema>;
 export type Encounter = z.infer<typeof EncounterSchema>;
 export type DungeonRaid = z.infer<typeof DungeonRaidSchema>;
+export type ContestProfile = z.infer<typeof ContestProfileSchema>;
+export type ContestStatus = 'upcoming' | 'live' | 'ended';
 
 // Vector store metadata
 export interface VectorMetadata {
@@ -49,15 +72,44 @@ export interface VectorMetadata {
   dungeonRaidName: string;
   dungeonRaidType: 'raid' | 'dungeon';
   mechanicType: string;
+  mechanicRole?: string;
   encounterType: string;
   difficulty?: string;
   contestModeSpecific?: boolean;
+  // Set on chunk vectors (id `${mechanicId}#${chunkIndex}`)
+  chunkIndex?: number;
+  chunkCount?: number;
+  chunkField?: ChunkField;
+  chunkText?: string;
+}
+
+// Mechanic fields that are chunked separately for embedding
+export type ChunkField = 'description' | 'solution' | 'tips' | 'contestModeNotes';
+
+// The chunk of a mechanic that best matched the query
+export interface ChunkHighlight {
+  chunkId: string;
+  field: ChunkField;
+  text: string;
+  terms: string[]; // Query terms found in the passage
 }
 
 // Search and API types
+
+// Per-source retrieval scores, so it's visible why a result ranked where it did
+export interface RetrievalScores {
+  semantic?: number; // Cosine similarity from the vector store
+  semanticRank?: number; // 1-based rank among semantic results
+  lexical?: number; // BM25 score
+  lexicalRank?: number; // 1-based rank among lexical results
+  fused: number; // Reciprocal rank fusion score, normalized to 0-1
+}
+
 export interface SearchResult {
   id: string;
   score: number;
+  scores?: RetrievalScores;
+  highlight?: ChunkHighlight;
   mechanic: Mechanic;
   encounter: Encounter;
   dungeonRaid: {
@@ -75,19 +127,131 @@ export interface SearchRequest {
     mechanicType?: string;
     difficulty?: string;
     contestModeOnly?: boolean;
+    encounterId?: string;
   };
   limit?: number;
 }
 
+// Filter values present in the loaded data, with how many mechanics each matches
+export interface CatalogOption {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface CatalogEncounter {
+  id: string;
+  name: string;
+  type: Encounter['type'];
+  order?: number;
+  mechanicCount: number;
+}
+
+export interface CatalogDungeonRaid {
+  id: string;
+  name: string;
+  type: DungeonRaid['type'];
+  mechanicCount: number;
+  encounters: CatalogEncounter[]; // In encounter order
+}
+
+export interface Catalog {
+  mechanicCount: number;
+  dungeonRaids: CatalogDungeonRaid[];
+  encounterTypes: CatalogOption[];
+  mechanicTypes: CatalogOption[];
+  difficulties: CatalogOption[];
+}
+
+// A retrieved mechanic the model can cite in its answer
+export interface CitationSource {
+  key: string; // Citation key as it appears in the context and answer, e.g. "cite:caiatl-bell-damage-phase"
+  number: number; // 1-based display number
+  mechanicId: string;
+  mechanicName: string;
+  mechanicType: Mechanic['type'];
+  encounter: { id: string; name: string };
+  dungeonRaid: { id: string; name: string };
+  score: number;
+}
+
+// Parts of the model's context that share the token budget, in priority order
+export type ContextSection = 'session' | 'flow' | 'other' | 'history';
+
+export interface ContextSectionReport {
+  budgetTokens: number; // This section's share plus whatever earlier sections left unused
+  usedTokens: number;
+  included: number;
+  truncated: number;
+  dropped: number;
+}
+
+// Something that didn't fit in full: a mechanic shortened or left out, or an older message left out
+export interface DroppedContextItem {
+  section: ContextSection;
+  id: string;
+  label: string;
+  action: 'truncated' | 'dropped';
+}
+
+// How a chat request's context was fitted into its token budget
+export interface ContextReport {
+  budgetTokens: number;
+  usedTokens: number;
+  sections: Record<ContextSection, ContextSectionReport>;
+  dropped: DroppedContextItem[];
+}
+
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp?: Date;
+  retrievalQuery?: string; // Standalone query the answer was retrieved with, when a follow-up was rewritten
+  sources?: CitationSource[];
+  usage?: ChatUsage;
+  contextReport?: ContextReport;
+  stopped?: boolean; // The user stopped the answer before it finished
+}
+
+/**
+ * Running summary of a conversation's older messages, maintained by /api/chat so long
+ * threads only send the summary plus recent messages
+ */
+export interface ConversationSummary {
+  text: string;
+  messageCount: number; // How many messages from the start of the conversation it covers
+  updatedAt: string;
+}
+
+/**
+ * A named chat thread, kept in the browser's localStorage
+ */
+export interface Conversation {
+  id: string;
+  title: string;
+  renamed?: boolean; // Title was set by the user rather than taken from the first question
+  messages: ChatMessage[];
+  pinned: boolean;
+  dungeonRaidName?: string; // Dungeon filter applied to every question in the thread
+  summary?: ConversationSummary;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Token counts reported by the chat model once an answer finishes
+ */
+export interface ChatUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
 }
 
 export interface ChatRequest {
   messages: ChatMessage[];
   query: string;
+  sessionId?: string;
   filters?: {
     dungeonRaidName?: string;
     encounterType?: string;
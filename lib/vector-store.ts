@@ -1,29 +1,6 @@
-import { Pinecone } from '@pinecone-database/pinecone';
 import type { VectorMetadata } from './types';
-
-const PINECONE_INDEX_NAME = process.env.PINECONE_INDEX_NAME || 'destiny-mechanics';
-
-// Initialize Pinecone client
-let pineconeClient: Pinecone | null = null;
-
-export async function getPineconeClient(): Promise<Pinecone> {
-  const PINECONE_API_KEY = process.env.PINECONE_API_KEY;
-  if (!PINECONE_API_KEY) {
-    throw new Error('PINECONE_API_KEY environment variable is not set');
-  }
-  
-  if (!pineconeClient) {
-    pineconeClient = new Pinecone({
-      apiKey: PINECONE_API_KEY,
-    });
-  }
-  return pineconeClient;
-}
-
-export async function getIndex() {
-  const client = await getPineconeClient();
-  return client.index(PINECONE_INDEX_NAME);
-}
+import { PineconeVectorStore, getPineconeIndexName } from './pinecone-store';
+import { LocalVectorStore, getLocalVectorStorePath } from './local-vector-store';
 
 export interface UpsertVector {
   id: string;
@@ -31,25 +8,6 @@ export interface UpsertVector {
   metadata: VectorMetadata;
 }
 
-/**
- * Upsert mechanics data to Pinecone vector store
- */
-export async function upsertMechanics(vectors: UpsertVector[]): Promise<void> {
-  try {
-    const index = await getIndex();
-    
-    // Pinecone recommends batches of 100
-    const batchSize = 100;
-    for (let i = 0; i < vectors.length; i += batchSize) {
-      const batch = vectors.slice(i, i + batchSize);
-      await index.upsert(batch);
-    }
-  } catch (error) {
-    console.error('Error upserting mechanics to Pinecone:', error);
-    throw new Error('Failed to upsert mechanics to vector store');
-  }
-}
-
 export interface SearchOptions {
   filter?: {
     dungeonRaidName?: string;
@@ -58,187 +16,142 @@ export interface SearchOptions {
     difficulty?: string;
     contestModeSpecific?: boolean;
     encounterOrder?: number; // Filter by specific encounter order
+    encounterId?: string; // Filter by a specific encounter
   };
   topK?: number;
 }
 
 /**
- * Search for similar mechanics using semantic search
+ * Check whether vector metadata satisfies the same filters Pinecone applies
  */
-export async function searchSimilar(
-  queryVector: number[],
-  options: SearchOptions = {}
-): Promise<Array<{ id: string; score: number; metadata: VectorMetadata }>> {
-  try {
-    const index = await getIndex();
-    
-    // Build Pinecone filter
-    const filter: Record<string, any> = {};
-    if (options.filter) {
-      if (options.filter.dungeonRaidName) {
-        filter.dungeonRaidName = { $eq: options.filter.dungeonRaidName };
-      }
-      if (options.filter.encounterType) {
-        filter.encounterType = { $eq: options.filter.encounterType };
-      }
-      if (options.filter.mechanicType) {
-        filter.mechanicType = { $eq: options.filter.mechanicType };
-      }
-      if (options.filter.difficulty) {
-        filter.difficulty = { $eq: options.filter.difficulty };
-      }
-      if (options.filter.contestModeSpecific !== undefined) {
-        filter.contestModeSpecific = { $eq: options.filter.contestModeSpecific };
-      }
-      if (options.filter.encounterOrder !== undefined) {
-        filter.encounterOrder = { $eq: options.filter.encounterOrder };
-      }
-    }
+export function matchesSearchFilter(metadata: VectorMetadata, filter: SearchOptions['filter']): boolean {
+  if (!filter) {
+    return true;
+  }
+  
+  if (filter.dungeonRaidName && metadata.dungeonRaidName !== filter.dungeonRaidName) {
+    return false;
+  }
+  if (filter.encounterType && metadata.encounterType !== filter.encounterType) {
+    return false;
+  }
+  if (filter.mechanicType && metadata.mechanicType !== filter.mechanicType) {
+    return false;
+  }
+  if (filter.difficulty && metadata.difficulty !== filter.difficulty) {
+    return false;
+  }
+  if (filter.contestModeSpecific !== undefined && metadata.contestModeSpecific !== filter.contestModeSpecific) {
+    return false;
+  }
+  if (filter.encounterOrder !== undefined && metadata.encounterOrder !== filter.encounterOrder) {
+    return false;
+  }
+  if (filter.encounterId && metadata.encounterId !== filter.encounterId) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Storage backend for mechanic embeddings
+ */
+export interface VectorStore {
+  readonly name: string;
+  upsertMechanics(vectors: UpsertVector[]): Promise<void>;
+  searchSimilar(
+    queryVector: number[],
+    options?: SearchOptions
+  ): Promise<Array<{ id: string; score: number; metadata: VectorMetadata }>>;
+  deleteMechanics(ids: string[]): Promise<void>;
+  deleteAllMechanics(): Promise<void>;
+  listAllMechanics(
+    filter?: { dungeonRaidName?: string }
+  ): Promise<Array<{ id: string; metadata: VectorMetadata }>>;
+  ensureIndex(dimension?: number): Promise<void>;
+}
 
-    const queryRequest: any = {
-      vector: queryVector,
-      topK: options.topK || 10,
-      includeMetadata: true,
-    };
+export type VectorStoreBackend = 'pinecone' | 'local';
 
-    if (Object.keys(filter).length > 0) {
-      queryRequest.filter = filter;
-    }
+let vectorStore: VectorStore | null = null;
+
+/**
+ * Backend selected by the VECTOR_STORE environment variable (defaults to Pinecone)
+ */
+export function getVectorStoreBackend(): VectorStoreBackend {
+  const backend = (process.env.VECTOR_STORE || 'pinecone').toLowerCase();
+  if (backend !== 'pinecone' && backend !== 'local') {
+    throw new Error(`Unknown VECTOR_STORE "${process.env.VECTOR_STORE}" (expected "pinecone" or "local")`);
+  }
+  return backend;
+}
 
-    const queryResponse = await index.query(queryRequest);
+/**
+ * Where the configured backend keeps its vectors ("pinecone:<index>" or "local:<file>"),
+ * so two indexes or files of the same backend can be told apart
+ */
+export function getVectorStoreTarget(): string {
+  if (getVectorStoreBackend() === 'local') {
+    return `local:${getLocalVectorStorePath() ?? 'memory'}`;
+  }
+  return `pinecone:${getPineconeIndexName()}`;
+}
 
-    return (queryResponse.matches || []).map((match) => ({
-      id: match.id,
-      score: match.score || 0,
-      metadata: match.metadata as VectorMetadata,
-    }));
-  } catch (error) {
-    console.error('Error searching Pinecone:', error);
-    throw new Error('Failed to search vector store');
+/**
+ * Get the configured vector store, creating it on first use
+ */
+export function getVectorStore(): VectorStore {
+  if (!vectorStore) {
+    vectorStore = getVectorStoreBackend() === 'local'
+      ? new LocalVectorStore(getLocalVectorStorePath())
+      : new PineconeVectorStore();
   }
+  return vectorStore;
+}
+
+/**
+ * Upsert mechanics data to the vector store
+ */
+export async function upsertMechanics(vectors: UpsertVector[]): Promise<void> {
+  return getVectorStore().upsertMechanics(vectors);
+}
+
+/**
+ * Search for similar mechanics using semantic search
+ */
+export async function searchSimilar(
+  queryVector: number[],
+  options: SearchOptions = {}
+): Promise<Array<{ id: string; score: number; metadata: VectorMetadata }>> {
+  return getVectorStore().searchSimilar(queryVector, options);
 }
 
 /**
  * Delete mechanics from vector store by IDs
  */
 export async function deleteMechanics(ids: string[]): Promise<void> {
-  try {
-    const index = await getIndex();
-    
-    // Pinecone delete accepts array of IDs
-    await index.deleteMany(ids);
-  } catch (error) {
-    console.error('Error deleting mechanics from Pinecone:', error);
-    throw new Error('Failed to delete mechanics from vector store');
-  }
+  return getVectorStore().deleteMechanics(ids);
 }
 
 /**
- * Delete all vectors from the Pinecone index
+ * Delete all vectors from the vector store
  */
 export async function deleteAllMechanics(): Promise<void> {
-  try {
-    const index = await getIndex();
-    // Delete all vectors from default namespace
-    await index.deleteAll();
-    console.log('✓ All vectors deleted from Pinecone index');
-  } catch (error) {
-    console.error('Error deleting all mechanics from Pinecone:', error);
-    throw new Error('Failed to delete all mechanics from vector store');
-  }
+  return getVectorStore().deleteAllMechanics();
 }
 
 /**
- * List all mechanics from the Pinecone index
+ * List all mechanics in the vector store
  */
 export async function listAllMechanics(
   filter?: { dungeonRaidName?: string }
 ): Promise<Array<{ id: string; metadata: VectorMetadata }>> {
-  try {
-    const index = await getIndex();
-    const allResults: Array<{ id: string; metadata: VectorMetadata }> = [];
-    
-    // Build filter for query
-    const queryFilter: Record<string, any> = {};
-    if (filter?.dungeonRaidName) {
-      queryFilter.dungeonRaidName = { $eq: filter.dungeonRaidName };
-    }
-    
-    // Use query with a dummy vector to fetch all results
-    // Create a zero vector (dimension 512)
-    const dummyVector = new Array(512).fill(0);
-    
-    // Query with very large topK to get all results
-    // Note: Pinecone has limits, so we may need to paginate if there are > 10k vectors
-    const queryRequest: any = {
-      vector: dummyVector,
-      topK: 10000, // Large enough for most cases
-      includeMetadata: true,
-    };
-    
-    if (Object.keys(queryFilter).length > 0) {
-      queryRequest.filter = queryFilter;
-    }
-    
-    const queryResponse = await index.query(queryRequest);
-    
-    if (queryResponse.matches) {
-      for (const match of queryResponse.matches) {
-        allResults.push({
-          id: match.id,
-          metadata: match.metadata as VectorMetadata,
-        });
-      }
-    }
-    
-    return allResults;
-  } catch (error) {
-    console.error('Error listing mechanics from Pinecone:', error);
-    throw new Error('Failed to list mechanics from vector store');
-  }
+  return getVectorStore().listAllMechanics(filter);
 }
 
 /**
  * Check if index exists and create if needed
  */
 export async function ensureIndex(dimension: number = 512): Promise<void> {
-  try {
-    const client = await getPineconeClient();
-    const indexes = await client.listIndexes();
-    
-    const indexExists = indexes.indexes?.some(
-      (idx) => idx.name === PINECONE_INDEX_NAME
-    );
-
-    if (!indexExists) {
-      await client.createIndex({
-        name: PINECONE_INDEX_NAME,
-        dimension,
-        metric: 'cosine',
-        spec: {
-          serverless: {
-            cloud: 'aws',
-            region: 'us-east-1',
-          },
-        },
-      });
-      
-      // Wait for index to be ready
-      let ready = false;
-      let attempts = 0;
-      while (!ready && attempts < 30) {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-        const indexStatus = await client.describeIndex(PINECONE_INDEX_NAME);
-        ready = indexStatus.status?.ready === true;
-        attempts++;
-      }
-      
-      if (!ready) {
-        throw new Error('Index creation timed out');
-      }
-    }
-  } catch (error) {
-    console.error('Error ensuring index exists:', error);
-    throw new Error('Failed to ensure index exists');
-  }
+  return getVectorStore().ensureIndex(dimension);
 }
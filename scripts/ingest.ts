@@ -2,11 +2,21 @@
 
 /**
  * Data ingestion script for Destiny 2 mechanics
- * 
- * This script processes JSON files from data/mechanics/ and ingests them into Pinecone.
- * 
+ *
+ * This script processes JSON files from data/mechanics/ and ingests them into the
+ * configured vector store (Pinecone by default, or the local store with VECTOR_STORE=local).
+ *
+ * Each mechanic is split into field- and sentence-aware chunks, embedded as separate
+ * vectors with ids `${mechanicId}#${n}`.
+ *
+ * Ingestion is incremental: a content hash of every mechanic is kept in a local manifest
+ * (.data/ingest-manifest.json), and only new or changed mechanics are embedded and
+ * upserted. Vectors of mechanics that no longer exist in the JSON are deleted.
+ *
  * Usage:
  *   npm run ingest
+ *   npm run ingest -- --dry-run    Print what would change without embedding or writing anything
+ *   npm run ingest -- --force      Re-embed every mechanic, even if unchanged
  *   or
  *   tsx scripts/ingest.ts [file1.json] [file2.json] ...
  */
@@ -17,129 +27,104 @@ import { resolve } from 'path';
 config({ path: resolve(process.cwd(), '.env.local') });
 
 import { readFileSync, readdirSync } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, relative } from 'path';
 import { fileURLToPath } from 'url';
-import { DungeonRaidSchema } from '../lib/types';
-import { generateEmbeddings, buildMechanicText } from '../lib/embeddings';
-import { upsertMechanics, ensureIndex, type UpsertVector } from '../lib/vector-store';
+import { DungeonRaidSchema, type DungeonRaid, type Encounter, type Mechanic, type VectorMetadata } from '../lib/types';
+import { validateDataFiles } from '../lib/data-validation';
+import { generateEmbeddings, getEmbeddingProviderName } from '../lib/embeddings';
+import { chunkMechanic, type MechanicChunk } from '../lib/chunking';
+import { upsertMechanics, deleteMechanics, ensureIndex, getVectorStoreBackend, getVectorStoreTarget, type UpsertVector } from '../lib/vector-store';
+import {
+  diffIngestManifest,
+  getIngestManifestPath,
+  getManifestVectorIds,
+  hashMechanicContent,
+  loadIngestManifest,
+  saveIngestManifest,
+  type IngestItem,
+} from '../lib/ingest-manifest';
 import { registerMechanic } from '../lib/rag';
+import { getMechanicRole } from '../lib/mechanic-roles';
 import { EMBEDDING_DIMENSION } from '../lib/embeddings';
 
 // Get the directory of the current script file
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Check for required environment variables
-const requiredEnvVars = ['PINECONE_API_KEY', 'OPENAI_API_KEY'];
-for (const envVar of requiredEnvVars) {
-  if (!process.env[envVar]) {
-    console.error(`Error: ${envVar} environment variable is not set`);
-    process.exit(1);
-  }
+interface MechanicEntry extends IngestItem {
+  mechanic: Mechanic;
+  encounter: Encounter;
+  dungeonRaid: DungeonRaid;
+  chunks: MechanicChunk[];
+  metadata: VectorMetadata;
 }
 
-async function ingestFile(filePath: string): Promise<void> {
-  console.log(`\nProcessing ${filePath}...`);
-
-  try {
-    // Read and parse JSON file
-    const fileContent = readFileSync(filePath, 'utf-8');
-    const data = JSON.parse(fileContent);
-    
-    // Validate schema
-    const dungeonRaid = DungeonRaidSchema.parse(data);
-    console.log(`✓ Validated: ${dungeonRaid.name} (${dungeonRaid.type})`);
-
-    // Build mechanics data
-    const mechanicsData: Array<{
-      mechanic: any;
-      encounter: any;
-      dungeonRaid: any;
-    }> = [];
-
-    for (const encounter of dungeonRaid.encounters) {
-      for (const mechanic of encounter.mechanics) {
-        mechanicsData.push({
-          mechanic,
-          encounter,
-          dungeonRaid,
-        });
-      }
-    }
-
-    console.log(`  Found ${mechanicsData.length} mechanics across ${dungeonRaid.encounters.length} encounters`);
-
-    if (mechanicsData.length === 0) {
-      console.log('  ⚠ No mechanics to ingest');
-      return;
-    }
-
-    // Build texts for embedding
-    const texts: string[] = [];
-    for (const item of mechanicsData) {
-      const text = buildMechanicText(
-        item.mechanic.name,
-        item.mechanic.description,
-        item.mechanic.solution,
-        item.mechanic.tips,
-        item.encounter.name,
-        item.dungeonRaid.name
-      );
-      texts.push(text);
+function checkRequiredEnvVars(): void {
+  const requiredEnvVars: string[] = [];
+  if (getEmbeddingProviderName() === 'openai') {
+    requiredEnvVars.push('OPENAI_API_KEY');
+  }
+  if (getVectorStoreBackend() === 'pinecone') {
+    requiredEnvVars.push('PINECONE_API_KEY');
+  }
+  for (const envVar of requiredEnvVars) {
+    if (!process.env[envVar]) {
+      console.error(`Error: ${envVar} environment variable is not set`);
+      process.exit(1);
     }
+  }
+}
 
-    // Generate embeddings
-    console.log('  Generating embeddings...');
-    const embeddings = await generateEmbeddings(texts, (processed, total) => {
-      process.stdout.write(`\r  Progress: ${processed}/${total} embeddings generated`);
-    });
-    console.log('\n  ✓ Embeddings generated');
+/**
+ * Read a data file and build the chunks, metadata and content hash of each mechanic
+ */
+function loadFile(filePath: string): MechanicEntry[] {
+  const file = relative(process.cwd(), filePath);
+  const dungeonRaid = DungeonRaidSchema.parse(JSON.parse(readFileSync(filePath, 'utf-8')));
+  const entries: MechanicEntry[] = [];
 
-    // Build vectors for Pinecone
-    const vectors: UpsertVector[] = embeddings.map((embedding, index) => {
-      const item = mechanicsData[index];
-      return {
-        id: item.mechanic.id,
-        values: embedding,
-        metadata: {
-          mechanicId: item.mechanic.id,
-          mechanicName: item.mechanic.name,
-          encounterId: item.encounter.id,
-          encounterName: item.encounter.name,
-          encounterOrder: item.encounter.order,
-          dungeonRaidId: item.dungeonRaid.id,
-          dungeonRaidName: item.dungeonRaid.name,
-          dungeonRaidType: item.dungeonRaid.type,
-          mechanicType: item.mechanic.type,
-          encounterType: item.encounter.type,
-          difficulty: item.mechanic.difficulty,
-          contestModeSpecific: item.mechanic.contestModeSpecific,
-        },
+  for (const encounter of dungeonRaid.encounters) {
+    for (const mechanic of encounter.mechanics) {
+      const chunks = chunkMechanic(mechanic, encounter, dungeonRaid);
+      const metadata: VectorMetadata = {
+        mechanicId: mechanic.id,
+        mechanicName: mechanic.name,
+        encounterId: encounter.id,
+        encounterName: encounter.name,
+        encounterOrder: encounter.order,
+        dungeonRaidId: dungeonRaid.id,
+        dungeonRaidName: dungeonRaid.name,
+        dungeonRaidType: dungeonRaid.type,
+        mechanicType: mechanic.type,
+        mechanicRole: getMechanicRole(mechanic),
+        encounterType: encounter.type,
+        difficulty: mechanic.difficulty,
+        contestModeSpecific: mechanic.contestModeSpecific,
       };
-    });
-
-    // Ensure index exists
-    console.log('  Ensuring Pinecone index exists...');
-    await ensureIndex(EMBEDDING_DIMENSION);
-    console.log('  ✓ Index ready');
-
-    // Upsert to Pinecone
-    console.log('  Uploading to Pinecone...');
-    await upsertMechanics(vectors);
-    console.log('  ✓ Uploaded to Pinecone');
-
-    // Register in RAG store (for runtime access)
-    for (const item of mechanicsData) {
-      registerMechanic(item.mechanic, item.encounter, item.dungeonRaid);
+      entries.push({
+        id: mechanic.id,
+        hash: hashMechanicContent(chunks.map((chunk) => chunk.text).join('\n\n'), metadata),
+        file,
+        mechanic,
+        encounter,
+        dungeonRaid,
+        chunks,
+        metadata,
+      });
     }
+  }
 
-    console.log(`✓ Successfully ingested ${mechanicsData.length} mechanics from ${dungeonRaid.name}`);
-  } catch (error) {
-    console.error(`✗ Error processing ${filePath}:`, error);
-    if (error instanceof Error) {
-      console.error(`  ${error.message}`);
-    }
-    throw error;
+  console.log(`✓ ${dungeonRaid.name} (${dungeonRaid.type}): ${entries.length} mechanics across ${dungeonRaid.encounters.length} encounters`);
+  return entries;
+}
+
+function printIds(label: string, ids: string[]): void {
+  if (ids.length === 0) {
+    return;
+  }
+  console.log(`\n${label}:`);
+  for (const id of ids) {
+    console.log(`  ${id}`);
   }
 }
 
@@ -149,13 +134,16 @@ async function main() {
 
   // Get file paths from command line args or use all files in data/mechanics/
   const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const force = args.includes('--force');
+  const fileArgs = args.filter((arg) => !arg.startsWith('--'));
   const dataDir = join(__dirname, '..', 'data', 'mechanics');
-  
+
   let filePaths: string[] = [];
-  
-  if (args.length > 0) {
+
+  if (fileArgs.length > 0) {
     // Use provided file paths
-    filePaths = args.map((arg) => {
+    filePaths = fileArgs.map((arg) => {
       if (arg.startsWith('/')) {
         return arg;
       }
@@ -172,31 +160,126 @@ async function main() {
     process.exit(1);
   }
 
+  if (!dryRun) {
+    checkRequiredEnvVars();
+  }
+
   console.log(`Found ${filePaths.length} file(s) to process\n`);
 
-  // Process each file
-  let successCount = 0;
-  let errorCount = 0;
-
-  for (const filePath of filePaths) {
-    try {
-      await ingestFile(filePath);
-      successCount++;
-    } catch (error) {
-      errorCount++;
-      console.error(`Failed to process ${filePath}`);
+  // Validate everything up front so bad data fails before any embedding calls
+  const report = validateDataFiles(
+    filePaths.map((filePath) => ({ file: filePath, content: readFileSync(filePath, 'utf-8') }))
+  );
+  if (!report.valid) {
+    console.error(`✗ Validation failed with ${report.errorCount} error(s):`);
+    for (const issue of report.issues.filter((issue) => issue.severity === 'error')) {
+      console.error(`  ${issue.file} ${issue.path}: ${issue.message}`);
     }
+    console.error('\nRun: npm run validate');
+    process.exit(1);
   }
 
+  const entries = filePaths.flatMap(loadFile);
+
+  // Compare against what was ingested last time
+  const backend = getVectorStoreBackend();
+  const manifest = loadIngestManifest(getVectorStoreTarget(), getEmbeddingProviderName());
+  const diff = diffIngestManifest(
+    manifest,
+    entries,
+    fileArgs.length > 0 ? [...new Set(entries.map((entry) => entry.file))] : undefined,
+    force
+  );
+  const toEmbed = [...diff.added, ...diff.changed];
+
   console.log('\n=====================================');
-  console.log('Ingestion Summary:');
-  console.log(`  ✓ Success: ${successCount}`);
-  console.log(`  ✗ Errors: ${errorCount}`);
-  console.log('=====================================\n');
+  console.log(`Ingestion Plan (${backend} vector store, ${getEmbeddingProviderName()} embeddings):`);
+  console.log(`  + Added: ${diff.added.length}`);
+  console.log(`  ~ Changed: ${diff.changed.length}`);
+  console.log(`  - Removed: ${diff.removed.length}`);
+  console.log(`  = Unchanged: ${diff.unchanged.length}`);
+  console.log('=====================================');
 
-  if (errorCount > 0) {
-    process.exit(1);
+  if (dryRun) {
+    printIds('Added', diff.added.map((item) => item.id));
+    printIds('Changed', diff.changed.map((item) => item.id));
+    printIds('Removed', diff.removed);
+    console.log('\nDry run - nothing was embedded, uploaded or deleted.');
+    return;
   }
+
+  if (toEmbed.length > 0) {
+    const chunks = toEmbed.flatMap((entry) =>
+      entry.chunks.map((chunk) => ({ chunk, metadata: entry.metadata, chunkCount: entry.chunks.length }))
+    );
+
+    // Generate embeddings
+    console.log(`\nGenerating ${chunks.length} embeddings for ${toEmbed.length} mechanics...`);
+    const embeddings = await generateEmbeddings(chunks.map(({ chunk }) => chunk.text), (processed, total) => {
+      process.stdout.write(`\r  Progress: ${processed}/${total} embeddings generated`);
+    });
+    console.log('\n  ✓ Embeddings generated');
+
+    // Build vectors for the vector store
+    const vectors: UpsertVector[] = embeddings.map((embedding, index) => {
+      const { chunk, metadata, chunkCount } = chunks[index];
+      return {
+        id: chunk.id,
+        values: embedding,
+        metadata: {
+          ...metadata,
+          chunkIndex: chunk.index,
+          chunkCount,
+          chunkField: chunk.field,
+          chunkText: chunk.passage,
+        },
+      };
+    });
+
+    // Ensure index exists
+    console.log('  Ensuring vector index exists...');
+    await ensureIndex(EMBEDDING_DIMENSION);
+    console.log('  ✓ Index ready');
+
+    // Upsert to vector store
+    console.log(`  Uploading to ${backend} vector store...`);
+    await upsertMechanics(vectors);
+    console.log(`  ✓ Uploaded ${vectors.length} vectors to ${backend} vector store`);
+  }
+
+  // Vectors of removed mechanics, plus chunks that changed mechanics no longer have
+  const staleVectorIds = [
+    ...diff.removed.flatMap((id) => getManifestVectorIds(manifest, id)),
+    ...diff.changed.flatMap((entry) => {
+      const currentIds = new Set(entry.chunks.map((chunk) => chunk.id));
+      return getManifestVectorIds(manifest, entry.id).filter((id) => !currentIds.has(id));
+    }),
+  ];
+  if (staleVectorIds.length > 0) {
+    console.log(`\nDeleting ${staleVectorIds.length} stale vectors (${diff.removed.length} removed mechanics)...`);
+    await deleteMechanics(staleVectorIds);
+    console.log(`  ✓ Deleted from ${backend} vector store`);
+  }
+
+  // Record what is now in the vector store
+  for (const id of diff.removed) {
+    delete manifest.mechanics[id];
+  }
+  for (const entry of entries) {
+    manifest.mechanics[entry.id] = {
+      hash: entry.hash,
+      file: entry.file,
+      vectorIds: entry.chunks.map((chunk) => chunk.id),
+    };
+  }
+  saveIngestManifest(manifest);
+
+  // Register in RAG store (for runtime access)
+  for (const entry of entries) {
+    registerMechanic(entry.mechanic, entry.encounter, entry.dungeonRaid);
+  }
+
+  console.log(`\n✓ Ingestion complete (manifest: ${relative(process.cwd(), getIngestManifestPath())})\n`);
 }
 
 // Run the script
@@ -4,16 +4,17 @@ import { config } from 'dotenv';
 import { resolve } from 'path';
 config({ path: resolve(process.cwd(), '.env.local') });
 
-import { listAllMechanics } from '../lib/vector-store';
+import { listAllMechanics, getVectorStoreBackend } from '../lib/vector-store';
 
 async function main() {
   const args = process.argv.slice(2);
   const filterName = args[0]; // Optional: filter by dungeon/raid name
 
-  console.log('Inspecting Pinecone Database');
+  const backend = getVectorStoreBackend();
+  console.log(`Inspecting ${backend} vector store`);
   console.log('============================\n');
 
-  if (!process.env.PINECONE_API_KEY) {
+  if (backend === 'pinecone' && !process.env.PINECONE_API_KEY) {
     console.error('Error: PINECONE_API_KEY environment variable is not set');
     process.exit(1);
   }
@@ -25,10 +26,22 @@ async function main() {
       console.log(`Filtering by: ${filterName}\n`);
     }
     
-    console.log('Fetching all mechanics from Pinecone...');
-    const mechanics = await listAllMechanics(filter);
+    console.log(`Fetching all mechanics from ${backend} vector store...`);
+    const vectors = await listAllMechanics(filter);
     
-    console.log(`\n✓ Found ${mechanics.length} mechanics\n`);
+    // Each mechanic is stored as one vector per chunk - list the mechanic once
+    const chunkCounts = new Map<string, number>();
+    const firstVectors = new Map<string, (typeof vectors)[number]>();
+    for (const vector of vectors) {
+      const { mechanicId } = vector.metadata;
+      chunkCounts.set(mechanicId, (chunkCounts.get(mechanicId) || 0) + 1);
+      if (!firstVectors.has(mechanicId)) {
+        firstVectors.set(mechanicId, vector);
+      }
+    }
+    const mechanics = Array.from(firstVectors.values());
+    
+    console.log(`\n✓ Found ${mechanics.length} mechanics (${vectors.length} vectors)\n`);
     
     if (mechanics.length === 0) {
       console.log('No mechanics found in the database.');
@@ -77,7 +90,7 @@ async function main() {
       for (const [encounterName, encMechanics] of Object.entries(byEncounter)) {
         console.log(`\n  ${encounterName} (${encMechanics.length} mechanics):`);
         for (const m of encMechanics) {
-          console.log(`    - ${m.metadata.mechanicName} [${m.metadata.mechanicType}] (ID: ${m.id})`);
+          console.log(`    - ${m.metadata.mechanicName} [${m.metadata.mechanicType}] (ID: ${m.metadata.mechanicId}, ${chunkCounts.get(m.metadata.mechanicId)} chunks)`);
         }
       }
     }
@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+
+/**
+ * Mechanic role migration
+ *
+ * Adds a `role` (flow, sub-mechanic, tip, callout) to every mechanic in data/mechanics/
+ * that doesn't have one yet, classified from the mechanic name. Review the result
+ * before committing - the classification is a starting point, the data is the source of truth.
+ *
+ * Usage:
+ *   npm run migrate:roles [-- --dry-run] [-- --force]
+ *
+ *   --dry-run  Print the roles that would be assigned without writing files
+ *   --force    Reclassify mechanics that already have a role
+ */
+
+import { readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { DungeonRaidSchema, type MechanicRole } from '../lib/types';
+import { classifyMechanicRole } from '../lib/mechanic-roles';
+
+// Get the directory of the current script file
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Set a mechanic's role in the raw file text, right after its "type" property,
+ * so the rest of the hand-written formatting is left untouched
+ */
+function setRoleInText(content: string, mechanicId: string, role: MechanicRole): string {
+  const mechanicPattern = new RegExp(
+    `("id":\\s*"${escapeRegExp(mechanicId)}",[\\s\\S]*?)(\\n(\\s*)"type":\\s*"[^"]*",)(\\n\\s*"role":\\s*"[^"]*",)?`
+  );
+  if (!mechanicPattern.test(content)) {
+    throw new Error(`Could not locate mechanic "${mechanicId}" in file`);
+  }
+  return content.replace(
+    mechanicPattern,
+    (_match, before: string, typeLine: string, indent: string) => `${before}${typeLine}\n${indent}"role": "${role}",`
+  );
+}
+
+function migrateFile(filePath: string, dryRun: boolean, force: boolean): Record<MechanicRole, number> {
+  let content = readFileSync(filePath, 'utf-8');
+  const dungeonRaid = DungeonRaidSchema.parse(JSON.parse(content));
+  const counts: Record<MechanicRole, number> = { flow: 0, 'sub-mechanic': 0, tip: 0, callout: 0 };
+  let changed = 0;
+
+  for (const encounter of dungeonRaid.encounters) {
+    for (const mechanic of encounter.mechanics) {
+      const role = mechanic.role && !force ? mechanic.role : classifyMechanicRole(mechanic, encounter);
+      counts[role]++;
+      if (role === mechanic.role) continue;
+
+      changed++;
+      console.log(`  ${mechanic.role ?? '(none)'} → ${role}: ${encounter.name} / ${mechanic.name}`);
+      content = setRoleInText(content, mechanic.id, role);
+    }
+  }
+
+  if (changed > 0 && !dryRun) {
+    // Make sure the edited file still parses to the same data plus roles
+    DungeonRaidSchema.parse(JSON.parse(content));
+    writeFileSync(filePath, content);
+  }
+  console.log(`✓ ${dungeonRaid.name}: ${changed} updated${dryRun ? ' (dry run)' : ''}`);
+  return counts;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const force = args.includes('--force');
+
+  const mechanicsDir = join(__dirname, '..', 'data', 'mechanics');
+  const files = readdirSync(mechanicsDir).filter(file => file.endsWith('.json'));
+  const totals: Record<MechanicRole, number> = { flow: 0, 'sub-mechanic': 0, tip: 0, callout: 0 };
+
+  try {
+    for (const file of files) {
+      console.log(`\nProcessing ${file}...`);
+      const counts = migrateFile(join(mechanicsDir, file), dryRun, force);
+      for (const role of Object.keys(totals) as MechanicRole[]) {
+        totals[role] += counts[role];
+      }
+    }
+  } catch (error) {
+    console.error('\n✗ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  console.log('\nRoles:', Object.entries(totals).map(([role, count]) => `${role} ${count}`).join(', '));
+}
+
+main();
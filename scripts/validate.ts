@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+
+/**
+ * Data validation script for data/mechanics JSON files
+ *
+ * Checks every file against DungeonRaidSchema plus semantic rules (unique ids,
+ * resolvable relatedMechanics, contiguous encounter order, contest notes, empty content)
+ * without touching the embedding API or vector store.
+ *
+ * Usage:
+ *   npm run validate
+ *   npm run validate -- --json            Print the report as JSON
+ *   npm run validate -- --strict          Treat warnings as errors
+ *   tsx scripts/validate.ts [file1.json] [file2.json] ...
+ *
+ * Exits with code 1 when there are errors (or warnings with --strict).
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { join, dirname, relative } from 'path';
+import { fileURLToPath } from 'url';
+import { validateDataFiles, type ValidationIssue } from '../lib/data-validation';
+
+// Get the directory of the current script file
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+function formatIssue(issue: ValidationIssue): string {
+  const icon = issue.severity === 'error' ? '✗' : '⚠';
+  const location = issue.path ? `${issue.file} ${issue.path}` : issue.file;
+  return `  ${icon} ${location}\n    ${issue.message} [${issue.rule}]`;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const strict = args.includes('--strict');
+  const fileArgs = args.filter(arg => !arg.startsWith('--'));
+
+  const dataDir = join(__dirname, '..', 'data', 'mechanics');
+  const filePaths = fileArgs.length > 0
+    ? fileArgs.map(arg => (arg.startsWith('/') ? arg : join(process.cwd(), arg)))
+    : readdirSync(dataDir).filter(file => file.endsWith('.json')).map(file => join(dataDir, file));
+
+  const report = validateDataFiles(
+    filePaths.map(filePath => ({
+      file: relative(process.cwd(), filePath),
+      content: readFileSync(filePath, 'utf-8'),
+    }))
+  );
+  const failed = !report.valid || (strict && report.warningCount > 0);
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log('Destiny 2 Mechanics Data Validation');
+    console.log('===================================\n');
+    console.log(`Checked ${report.files} file(s): ${report.dungeonRaids} dungeons/raids, ${report.encounters} encounters, ${report.mechanics} mechanics\n`);
+
+    for (const issue of report.issues.filter(issue => issue.severity === 'error')) {
+      console.log(formatIssue(issue));
+    }
+    for (const issue of report.issues.filter(issue => issue.severity === 'warning')) {
+      console.log(formatIssue(issue));
+    }
+
+    if (report.issues.length > 0) {
+      console.log();
+    }
+    console.log(`${failed ? '✗' : '✓'} ${report.errorCount} error(s), ${report.warningCount} warning(s)`);
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+}
+
+main();
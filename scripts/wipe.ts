@@ -4,17 +4,21 @@ import { config } from 'dotenv';
 import { resolve } from 'path';
 config({ path: resolve(process.cwd(), '.env.local') });
 
-import { deleteAllMechanics } from '../lib/vector-store';
+import { deleteAllMechanics, getVectorStoreBackend } from '../lib/vector-store';
+import { clearIngestManifest } from '../lib/ingest-manifest';
 
 async function main() {
-  console.log('Wiping Pinecone Database...\n');
-  if (!process.env.PINECONE_API_KEY) {
+  const backend = getVectorStoreBackend();
+  console.log(`Wiping ${backend} vector store...\n`);
+  if (backend === 'pinecone' && !process.env.PINECONE_API_KEY) {
     console.error('Error: PINECONE_API_KEY environment variable is not set');
     process.exit(1);
   }
   try {
     await deleteAllMechanics();
-    console.log('\n✓ Successfully wiped all data from Pinecone index');
+    // Nothing is ingested anymore, so the next ingest must embed everything
+    clearIngestManifest();
+    console.log(`\n✓ Successfully wiped all data from ${backend} vector store`);
     console.log('Run: npm run ingest');
   } catch (error) {
     console.error('\n✗ Error:', error instanceof Error ? error.message : error);